@@ -0,0 +1,73 @@
+/*
+*  Power BI Visual CLI
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved.
+*  MIT License
+*/
+"use strict";
+
+import { FilterCategory, FilterValue } from "./dataInterfaces";
+import { isRangeActive } from "./range";
+
+function isFiltered(category: FilterCategory): boolean {
+    if (category.range) {
+        return isRangeActive(category.range);
+    }
+    const values = category.isHierarchy ? category.hierarchyLevels?.[0]?.values ?? [] : category.values;
+    return values.some(value => value.selected || value.indeterminate);
+}
+
+function getAllValues(category: FilterCategory): FilterValue[] {
+    return category.isHierarchy
+        ? (category.hierarchyLevels ?? []).flatMap(level => level.values)
+        : category.values;
+}
+
+// Marks a value and, for hierarchy nodes, its ancestors
+function markAvailable(value: FilterValue) {
+    for (let node = value; node && !node.available; node = node.parent) {
+        node.available = true;
+    }
+}
+
+/**
+ * Marks the values that still have data under the selections of the other sections.
+ * A row makes its values available when it matches every filtered section; a row
+ * failing exactly one section still makes its value in that section available,
+ * since that section's own selection doesn't narrow its choices.
+ *
+ * Without cascading, or while nothing is filtered, "available" is left undefined.
+ */
+export function updateAvailability(categories: FilterCategory[], enabled: boolean) {
+    categories.forEach(category => getAllValues(category).forEach(value => value.available = undefined));
+
+    const filtered = categories.filter(category => isFiltered(category));
+    if (!enabled || filtered.length === 0) {
+        return;
+    }
+
+    categories.forEach(category => getAllValues(category).forEach(value => value.available = false));
+
+    const rowCount = Math.max(...categories.map(category => category.rowValues.length));
+    for (let row = 0; row < rowCount; row++) {
+        let failedCategory: FilterCategory = null;
+        let failures = 0;
+
+        for (const category of filtered) {
+            // Range sections mark the values inside the range as selected
+            if (!category.rowValues[row]?.selected) {
+                failedCategory = category;
+                if (++failures > 1) {
+                    break;
+                }
+            }
+        }
+
+        if (failures === 0) {
+            categories.forEach(category => markAvailable(category.rowValues[row]));
+        } else if (failures === 1) {
+            markAvailable(failedCategory.rowValues[row]);
+        }
+    }
+}
@@ -0,0 +1,118 @@
+/*
+*  Power BI Visual CLI
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved.
+*  MIT License
+*/
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import { IFilterColumnTarget } from "powerbi-models";
+
+import ISelectionId = powerbi.visuals.ISelectionId;
+import PrimitiveValue = powerbi.PrimitiveValue;
+
+export type SelectionMode = "multi" | "single";
+export type SectionType = "list" | "range" | "relativeDate";
+export type ValueType = "text" | "numeric" | "dateTime";
+export type RangeMode = "between" | "before" | "after";
+export type SortOrder = "data" | "ascending" | "descending" | "measure";
+export type RelativeDatePeriod = "none" | "last" | "this" | "toDate";
+export type RelativeDateUnit = "days" | "weeks" | "months" | "quarters" | "years";
+export type UnavailableDisplay = "dim" | "hide" | "sortLast";
+export type MenuLayout = "overlay" | "docked" | "rail" | "drawerTop" | "drawerBottom";
+
+// Per-field behavior, set in the format pane for each column in the Filters well
+export interface FieldSettings {
+    // Section title, empty for the column name
+    displayName: string;
+    // Filter-only field: applies defaults and presets but has no section in the menu
+    hidden: boolean;
+    // Collapsed state before the user expands the section
+    defaultCollapsed: boolean;
+    // Off hides the search box even when the Search Box card shows it
+    showSearch: boolean;
+    // Height limit of the value list in px, 0 for the default
+    maxHeight: number;
+    selectionMode: SelectionMode;
+    // Never let the section end up without a selection
+    requireSelection: boolean;
+    // Value (or "Parent > Child" path in hierarchies) selected when nothing is chosen
+    defaultValue: string;
+    // Order of the values (and of the children at each hierarchy level)
+    sortOrder: SortOrder;
+    // Selected values are listed before the others
+    pinSelected: boolean;
+    // With cascading filters: how values without rows matching the other sections are shown
+    unavailableItems: UnavailableDisplay;
+    // Range sections replace the value list for numeric and date columns,
+    // relative date sections for date columns
+    sectionType: SectionType;
+    // Relative date sections: "last 3 months", "this quarter", "year to date"...
+    relativePeriod: RelativeDatePeriod;
+    relativeCount: number;
+    relativeUnit: RelativeDateUnit;
+    // yyyy-mm-dd the relative period is computed against, empty for today
+    anchorDate: string;
+}
+
+// State of a range section. Dates are stored as epoch milliseconds.
+export interface RangeState {
+    mode: RangeMode;
+    // Bounds of the loaded data
+    min: number;
+    max: number;
+    // Active bounds, undefined while the section isn't filtered
+    from?: number;
+    to?: number;
+}
+
+export interface FilterCategory {
+    name: string;
+    displayName: string;
+    values: FilterValue[];
+    isHierarchy: boolean;
+    hierarchyLevels?: HierarchyLevel[];
+    order: number;
+    collapsed: boolean;
+    // Filter target of the underlying column (standard sections only)
+    target?: IFilterColumnTarget;
+    // Label function of the column in the host locale (standard sections only)
+    formatValue?: (value: PrimitiveValue) => string;
+    // Query name of the column (first level for hierarchies) the field settings are bound to
+    queryName?: string;
+    settings: FieldSettings;
+    valueType: ValueType;
+    // Only set for standard sections rendered as a range or relative date period
+    range?: RangeState;
+    // Value of each data row (the leaf node for hierarchies), used to cascade selections
+    rowValues: FilterValue[];
+}
+
+export interface HierarchyLevel {
+    name: string;
+    values: FilterValue[];
+    levelIndex: number;
+    target?: IFilterColumnTarget;
+}
+
+export interface FilterValue {
+    value: string;
+    // Original data value, used for filter conditions (null for blanks)
+    rawValue: PrimitiveValue;
+    identity: ISelectionId;
+    selected: boolean;
+    indeterminate?: boolean;
+    // Sum of the measure over the rows behind the value; hierarchy nodes roll up their descendants
+    measure?: number;
+    // Whether rows behind the value are highlighted by another visual, undefined without highlights
+    highlighted?: boolean;
+    // With cascading filters: whether any row of the value matches the other sections' selections
+    available?: boolean;
+    // Hierarchy nodes only: the tree links and the node's full ancestor path key
+    key?: string;
+    level?: number;
+    children?: FilterValue[];
+    parent?: FilterValue;
+}
@@ -0,0 +1,241 @@
+/*
+*  Power BI Visual CLI
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved.
+*  MIT License
+*/
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import {
+    AdvancedFilter, BasicFilter, FilterType, IAdvancedFilter, IAdvancedFilterCondition, IBasicFilter, IFilter,
+    IFilterColumnTarget, IFilterTarget, ITupleElementValue, ITupleFilter, PrimitiveValueType, TupleFilter
+} from "powerbi-models";
+
+import PrimitiveValue = powerbi.PrimitiveValue;
+
+import { FilterCategory, FilterValue } from "./dataInterfaces";
+import { addDays, getEffectiveBounds, isRangeActive } from "./range";
+
+/**
+ * Converts a data value into a value Power BI accepts in a JSON filter.
+ * Dates are serialized, blanks are kept as null.
+ */
+export function toFilterValue(value: PrimitiveValue): PrimitiveValueType {
+    if (value instanceof Date) {
+        return value.toJSON();
+    }
+    return value as PrimitiveValueType;
+}
+
+/**
+ * Builds the JSON filter for a single category, or null when nothing in it is selected.
+ */
+export function buildCategoryFilter(category: FilterCategory): IFilter | null {
+    return category.isHierarchy
+        ? buildHierarchyFilter(category)
+        : buildStandardFilter(category);
+}
+
+/**
+ * Builds one JSON filter per category that has an active selection.
+ */
+export function buildFilters(categories: FilterCategory[]): IFilter[] {
+    return categories
+        .map(category => buildCategoryFilter(category))
+        .filter(filter => filter !== null);
+}
+
+function buildStandardFilter(category: FilterCategory): IFilter | null {
+    if (!category.target) {
+        return null;
+    }
+
+    if (category.range) {
+        return buildRangeFilter(category);
+    }
+
+    const values = category.values
+        .filter(value => value.selected)
+        .map(value => toFilterValue(value.rawValue));
+
+    if (values.length === 0) {
+        return null;
+    }
+
+    const filter = new BasicFilter(category.target, "In", values);
+    filter.requireSingleSelection = category.settings.selectionMode === "single";
+    return filter.toJSON();
+}
+
+/**
+ * Range sections are filtered with an advanced filter. Date ranges include the whole end day.
+ */
+function buildRangeFilter(category: FilterCategory): IFilter | null {
+    const range = category.range;
+    if (!isRangeActive(range)) {
+        return null;
+    }
+
+    const isDate = category.valueType === "dateTime";
+    const toConditionValue = (value: number) => isDate ? new Date(value).toJSON() : value;
+    const { from, to } = getEffectiveBounds(range);
+    const conditions: IAdvancedFilterCondition[] = [];
+
+    if (from !== undefined) {
+        conditions.push({ operator: "GreaterThanOrEqual", value: toConditionValue(from) });
+    }
+    if (to !== undefined) {
+        conditions.push(isDate
+            ? { operator: "LessThan", value: toConditionValue(addDays(to, 1)) }
+            : { operator: "LessThanOrEqual", value: toConditionValue(to) });
+    }
+
+    return new AdvancedFilter(category.target, "And", conditions).toJSON();
+}
+
+/**
+ * Hierarchies are filtered with a tuple filter over all level columns. Selected
+ * branches are expanded to their leaf paths so every tuple covers every level.
+ */
+function buildHierarchyFilter(category: FilterCategory): IFilter | null {
+    const levels = category.hierarchyLevels ?? [];
+    if (levels.length === 0 || levels.some(level => !level.target)) {
+        return null;
+    }
+
+    const targets: IFilterColumnTarget[] = levels.map(level => level.target);
+    const tuples: ITupleElementValue[][] = [];
+
+    const collect = (value: FilterValue, path: FilterValue[], forceSelected: boolean) => {
+        const currentPath = [...path, value];
+        const selected = forceSelected || value.selected;
+
+        if (!selected && !value.indeterminate) {
+            return;
+        }
+
+        if (currentPath.length === levels.length) {
+            if (selected) {
+                tuples.push(currentPath.map(pathValue => ({ value: toFilterValue(pathValue.rawValue) })));
+            }
+            return;
+        }
+
+        (value.children ?? []).forEach(child => collect(child, currentPath, selected));
+    };
+
+    levels[0].values.forEach(value => collect(value, [], false));
+
+    if (tuples.length === 0) {
+        return null;
+    }
+
+    return new TupleFilter(targets, "In", tuples).toJSON();
+}
+
+/**
+ * Checks whether a filter target points at the same column as a category or level target.
+ */
+export function isSameTarget(columnTarget: IFilterColumnTarget, target: IFilterTarget): boolean {
+    if (!columnTarget || !target) {
+        return false;
+    }
+    const other = target as IFilterColumnTarget;
+    return columnTarget.table === other.table && columnTarget.column === other.column;
+}
+
+// JSON with sorted object keys, so filters compare equal whatever order the host keeps their properties in
+function toCanonicalJson(value: unknown): string {
+    return JSON.stringify(value, (key, item) => item && typeof item === "object" && !Array.isArray(item)
+        ? Object.keys(item).sort().reduce((sorted, name) => ({ ...sorted, [name]: item[name] }), {})
+        : item);
+}
+
+/**
+ * Checks whether the filters persisted by the host are the ones the categories would build.
+ */
+export function isSameFilters(categories: FilterCategory[], filters: IFilter[]): boolean {
+    return toCanonicalJson(buildFilters(categories)) === toCanonicalJson(filters ?? []);
+}
+
+function isSameValue(value: PrimitiveValue, filterValue: PrimitiveValueType): boolean {
+    return toFilterValue(value) === (filterValue ?? null);
+}
+
+/**
+ * Marks the values referenced by persisted JSON filters as selected. Hierarchy parent
+ * states are not touched here; callers recompute them from the restored leaves.
+ */
+export function restoreFromFilters(categories: FilterCategory[], filters: IFilter[]) {
+    filters.forEach(filter => {
+        if (filter.filterType === FilterType.Basic) {
+            const basicFilter = filter as IBasicFilter;
+            const category = categories.find(cat => !cat.isHierarchy && isSameTarget(cat.target, basicFilter.target as IFilterTarget));
+            if (!category || basicFilter.operator !== "In") {
+                return;
+            }
+            category.values.forEach(value => {
+                value.selected = basicFilter.values.some(filterValue => isSameValue(value.rawValue, filterValue));
+            });
+        } else if (filter.filterType === FilterType.Advanced) {
+            const advancedFilter = filter as IAdvancedFilter;
+            const category = categories.find(cat => cat.range && isSameTarget(cat.target, advancedFilter.target as IFilterTarget));
+            if (category) {
+                restoreRange(category, advancedFilter);
+            }
+        } else if (filter.filterType === FilterType.Tuple) {
+            const tupleFilter = filter as ITupleFilter;
+            const category = categories.find(cat => cat.isHierarchy
+                && cat.hierarchyLevels?.length === tupleFilter.target.length
+                && cat.hierarchyLevels.every((level, idx) => isSameTarget(level.target, tupleFilter.target[idx])));
+            if (!category) {
+                return;
+            }
+            tupleFilter.values.forEach(tuple => {
+                let candidates = category.hierarchyLevels[0].values;
+                let node: FilterValue;
+                for (const element of tuple) {
+                    node = candidates.find(value => isSameValue(value.rawValue, element.value));
+                    if (!node) {
+                        return;
+                    }
+                    candidates = node.children ?? [];
+                }
+                node.selected = true;
+            });
+        }
+    });
+}
+
+function restoreRange(category: FilterCategory, filter: IAdvancedFilter) {
+    const range = category.range;
+    const isDate = category.valueType === "dateTime";
+    range.from = undefined;
+    range.to = undefined;
+
+    (filter.conditions ?? []).forEach(condition => {
+        const value = typeof condition.value === "string" ? Date.parse(condition.value) : Number(condition.value);
+        switch (condition.operator) {
+            case "GreaterThan":
+            case "GreaterThanOrEqual":
+                range.from = value;
+                break;
+            case "LessThan":
+                range.to = isDate ? addDays(value, -1) : value;
+                break;
+            case "LessThanOrEqual":
+                range.to = value;
+                break;
+        }
+    });
+
+    if (range.from !== undefined && range.to !== undefined) {
+        range.mode = "between";
+    } else if (range.from !== undefined) {
+        range.mode = "after";
+    } else if (range.to !== undefined) {
+        range.mode = "before";
+    }
+}
@@ -0,0 +1,62 @@
+/*
+*  Power BI Visual CLI
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved.
+*  MIT License
+*/
+"use strict";
+
+const focusableSelector = "button, input, select, textarea, a[href], [tabindex]";
+
+export function isActivationKey(event: KeyboardEvent): boolean {
+    return event.key === "Enter" || event.key === " ";
+}
+
+/**
+ * Lets a non-native control (a div with role="button") be triggered with Enter and
+ * Space like a button. Keys pressed on nested controls are left to them.
+ */
+export function bindActivation(element: HTMLElement, action: () => void) {
+    element.addEventListener("keydown", (event: KeyboardEvent) => {
+        if (event.target === element && isActivationKey(event)) {
+            event.preventDefault();
+            action();
+        }
+    });
+}
+
+/**
+ * Tab stops inside a container in document order, skipping disabled and hidden
+ * elements and the ones taken out of the tab order with tabindex="-1".
+ */
+export function getFocusableElements(container: HTMLElement): HTMLElement[] {
+    return Array.from(container.querySelectorAll<HTMLElement>(focusableSelector))
+        .filter(element => element.tabIndex >= 0
+            && !element.hasAttribute("disabled")
+            && element.getClientRects().length > 0);
+}
+
+/**
+ * Keeps Tab and Shift+Tab cycling inside a modal container.
+ */
+export function trapFocus(event: KeyboardEvent, container: HTMLElement) {
+    const focusable = getFocusableElements(container);
+    if (focusable.length === 0) {
+        event.preventDefault();
+        return;
+    }
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = document.activeElement;
+    const isOutside = !container.contains(active);
+
+    if (event.shiftKey && (active === first || isOutside)) {
+        event.preventDefault();
+        last.focus();
+    } else if (!event.shiftKey && (active === last || isOutside)) {
+        event.preventDefault();
+        first.focus();
+    }
+}
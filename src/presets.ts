@@ -0,0 +1,52 @@
+/*
+*  Power BI Visual CLI
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved.
+*  MIT License
+*/
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+
+import DataView = powerbi.DataView;
+import VisualObjectInstancesToPersist = powerbi.VisualObjectInstancesToPersist;
+
+import { SerializedSelection } from "./selectionSnapshot";
+
+// Named selection of every section, stored with the visual
+export interface FilterPreset {
+    name: string;
+    // Applied on first load when the report has no selection for the menu yet
+    isDefault: boolean;
+    selection: SerializedSelection;
+}
+
+/**
+ * Reads the presets stored in the "presets" object. Invalid JSON is treated as no presets.
+ */
+export function readPresets(dataView: DataView): FilterPreset[] {
+    const items = dataView?.metadata?.objects?.presets?.items;
+    if (typeof items !== "string" || !items) {
+        return [];
+    }
+
+    try {
+        const presets = JSON.parse(items);
+        return Array.isArray(presets)
+            ? presets.filter(preset => typeof preset?.name === "string" && preset.selection)
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+export function toPresetChanges(presets: FilterPreset[]): VisualObjectInstancesToPersist {
+    return {
+        merge: [{
+            objectName: "presets",
+            selector: null,
+            properties: { items: JSON.stringify(presets) }
+        }]
+    };
+}
@@ -0,0 +1,173 @@
+/*
+*  Power BI Visual CLI
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved.
+*  MIT License
+*/
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+
+import PrimitiveValue = powerbi.PrimitiveValue;
+import ValueTypeDescriptor = powerbi.ValueTypeDescriptor;
+
+import { FilterValue, RangeState, ValueType } from "./dataInterfaces";
+
+export const dayInMilliseconds = 24 * 60 * 60 * 1000;
+
+export function getValueType(type: ValueTypeDescriptor): ValueType {
+    if (type?.dateTime) {
+        return "dateTime";
+    }
+    if (type?.numeric || type?.integer) {
+        return "numeric";
+    }
+    return "text";
+}
+
+/**
+ * Numeric representation of a data value used by range sections, null for blanks and text.
+ */
+export function toRangeNumber(value: PrimitiveValue): number | null {
+    if (value instanceof Date) {
+        return value.getTime();
+    }
+    if (typeof value === "number" && !isNaN(value)) {
+        return value;
+    }
+    return null;
+}
+
+/**
+ * Creates or updates the range state of a section from its values, keeping the active bounds.
+ */
+export function computeRange(values: FilterValue[], previous?: RangeState): RangeState {
+    let min = Infinity;
+    let max = -Infinity;
+
+    values.forEach(value => {
+        const rangeValue = toRangeNumber(value.rawValue);
+        if (rangeValue !== null) {
+            min = Math.min(min, rangeValue);
+            max = Math.max(max, rangeValue);
+        }
+    });
+
+    if (min > max) {
+        min = 0;
+        max = 0;
+    }
+
+    return {
+        mode: previous?.mode ?? "between",
+        min,
+        max,
+        from: previous?.from,
+        to: previous?.to
+    };
+}
+
+/**
+ * Local midnight a number of days after the day of a date value. Days are counted
+ * in calendar days, so a daylight saving change in between doesn't shift the time.
+ */
+export function addDays(value: number, days: number): number {
+    const date = new Date(value);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days).getTime();
+}
+
+/**
+ * Rounds a date value to the nearest local midnight. Slider steps are 24 hours
+ * from the minimum, which is an hour off after a daylight saving change.
+ */
+export function snapToDay(value: number): number {
+    return addDays(value, new Date(value).getHours() >= 12 ? 1 : 0);
+}
+
+export function isRangeActive(range: RangeState): boolean {
+    switch (range.mode) {
+        case "before":
+            return range.to !== undefined;
+        case "after":
+            return range.from !== undefined;
+        default:
+            return range.from !== undefined || range.to !== undefined;
+    }
+}
+
+/**
+ * Lower and upper bound the range filters on, depending on the mode. Undefined means unbounded.
+ */
+export function getEffectiveBounds(range: RangeState): { from?: number, to?: number } {
+    return {
+        from: range.mode === "before" ? undefined : range.from,
+        to: range.mode === "after" ? undefined : range.to
+    };
+}
+
+/**
+ * Checks a data value against the active bounds. Date ranges include the whole end day.
+ */
+export function isInRange(range: RangeState, value: PrimitiveValue, valueType: ValueType): boolean {
+    const rangeValue = toRangeNumber(value);
+    if (rangeValue === null || !isRangeActive(range)) {
+        return false;
+    }
+
+    const { from, to } = getEffectiveBounds(range);
+    const withinUpper = to === undefined
+        || (valueType === "dateTime" ? rangeValue < addDays(to, 1) : rangeValue <= to);
+    return (from === undefined || rangeValue >= from) && withinUpper;
+}
+
+/**
+ * Step of the range slider: whole days for dates, whole numbers for integer data.
+ */
+export function getRangeStep(values: FilterValue[], valueType: ValueType, range: RangeState): number {
+    if (valueType === "dateTime") {
+        return dayInMilliseconds;
+    }
+
+    const allIntegers = values.every(value => {
+        const rangeValue = toRangeNumber(value.rawValue);
+        return rangeValue === null || Number.isInteger(rangeValue);
+    });
+
+    return allIntegers ? 1 : (range.max - range.min) / 100 || 1;
+}
+
+/**
+ * Formats a range value for a number or date input.
+ */
+export function toInputValue(value: number, valueType: ValueType): string {
+    if (valueType !== "dateTime") {
+        return String(value);
+    }
+
+    const date = new Date(value);
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parses the value of a number or date input, null when it is empty or invalid.
+ */
+export function fromInputValue(text: string, valueType: ValueType): number | null {
+    if (!text) {
+        return null;
+    }
+
+    if (valueType === "dateTime") {
+        // Date inputs are yyyy-mm-dd; interpret them as local midnight like the data values.
+        // Out of range parts would roll over (2024-13-45 is 14 Feb 2025), so they are rejected
+        const [year, month, day] = text.split("-").map(Number);
+        const date = new Date(year, month - 1, day);
+        const matches = date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+        return matches ? date.getTime() : null;
+    }
+
+    const numeric = Number(text);
+    return isNaN(numeric) ? null : numeric;
+}
@@ -0,0 +1,102 @@
+/*
+*  Power BI Visual CLI
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved.
+*  MIT License
+*/
+"use strict";
+
+import { FieldSettings, RelativeDateUnit } from "./dataInterfaces";
+import { fromInputValue } from "./range";
+
+/**
+ * Anchor date of the field settings at local midnight, or null when it is empty
+ * or not a valid yyyy-mm-dd date.
+ */
+export function parseAnchorDate(settings: FieldSettings): Date | null {
+    const anchor = fromInputValue(settings.anchorDate?.trim(), "dateTime");
+    return anchor !== null ? new Date(anchor) : null;
+}
+
+/**
+ * An empty anchor date means today; anything else must be a valid date.
+ */
+export function isAnchorDateValid(settings: FieldSettings): boolean {
+    return !settings.anchorDate?.trim() || parseAnchorDate(settings) !== null;
+}
+
+/**
+ * Day the relative period is computed against: the anchor date from the field
+ * settings when it is valid, today otherwise. Local midnight, like the date
+ * values of range sections.
+ */
+export function getAnchorDate(settings: FieldSettings, today: Date = new Date()): Date {
+    return parseAnchorDate(settings) ?? new Date(today.getFullYear(), today.getMonth(), today.getDate());
+}
+
+function startOf(unit: RelativeDateUnit, date: Date): Date {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+    switch (unit) {
+        case "weeks":
+            // Weeks start on Monday (ISO 8601)
+            return new Date(year, month, date.getDate() - (date.getDay() + 6) % 7);
+        case "months":
+            return new Date(year, month, 1);
+        case "quarters":
+            return new Date(year, month - month % 3, 1);
+        case "years":
+            return new Date(year, 0, 1);
+        default:
+            return new Date(year, month, date.getDate());
+    }
+}
+
+function add(unit: RelativeDateUnit, date: Date, count: number): Date {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+    const day = date.getDate();
+    switch (unit) {
+        case "days":
+            return new Date(year, month, day + count);
+        case "weeks":
+            return new Date(year, month, day + count * 7);
+        default: {
+            // Clamp to the last day of the target month so Mar 31 - 1 month is Feb 28/29
+            const months = unit === "years" ? count * 12 : unit === "quarters" ? count * 3 : count;
+            const lastDay = new Date(year, month + months + 1, 0).getDate();
+            return new Date(year, month + months, Math.min(day, lastDay));
+        }
+    }
+}
+
+/**
+ * Resolves the relative period of a field to inclusive first and last days (epoch
+ * milliseconds), or null when the section isn't filtered.
+ *
+ * - last N units: the N units ending on the anchor day, e.g. last 7 days is the anchor day and the 6 days before
+ * - this unit: the whole calendar week, month, quarter or year containing the anchor day
+ * - unit to date: from the start of that calendar unit up to the anchor day
+ */
+export function computeRelativeRange(settings: FieldSettings, today?: Date): { from: number, to: number } | null {
+    const anchor = getAnchorDate(settings, today);
+    const unit = settings.relativeUnit;
+
+    switch (settings.relativePeriod) {
+        case "last": {
+            const count = Math.max(1, Math.floor(settings.relativeCount) || 1);
+            const from = add("days", add(unit, anchor, -count), 1);
+            return { from: from.getTime(), to: anchor.getTime() };
+        }
+        case "this": {
+            const from = startOf(unit, anchor);
+            const to = add("days", add(unit, from, 1), -1);
+            return { from: from.getTime(), to: to.getTime() };
+        }
+        case "toDate":
+            return { from: startOf(unit, anchor).getTime(), to: anchor.getTime() };
+        default:
+            return null;
+    }
+}
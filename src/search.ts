@@ -0,0 +1,117 @@
+/*
+*  Power BI Visual CLI
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved.
+*  MIT License
+*/
+"use strict";
+
+export type SearchMode = "contains" | "startsWith" | "exact";
+
+export interface SearchQuery {
+    mode: SearchMode;
+    // Normalized, whitespace-separated terms that all have to match
+    terms: string[];
+}
+
+// Start and end (exclusive) of a match in the original text
+export type MatchRange = [number, number];
+
+const diacritics = /[\u0300-\u036f]/g;
+
+function normalizeCharacter(character: string): string {
+    return character.normalize("NFD").replace(diacritics, "").toLowerCase();
+}
+
+/**
+ * Lower-cases the text and strips diacritics, so "München" and "munchen" compare equal.
+ */
+export function normalizeText(text: string): string {
+    return Array.from(text, normalizeCharacter).join("");
+}
+
+/**
+ * Normalizes the text and keeps, for every character of the result, its position in the
+ * original text, so matches can be highlighted in the displayed label.
+ */
+function normalizeWithPositions(text: string): { normalized: string, positions: number[] } {
+    let normalized = "";
+    const positions: number[] = [];
+    let offset = 0;
+
+    for (const character of Array.from(text)) {
+        const part = normalizeCharacter(character);
+        for (let index = 0; index < part.length; index++) {
+            positions.push(offset);
+        }
+        normalized += part;
+        offset += character.length;
+    }
+    positions.push(offset);
+
+    return { normalized, positions };
+}
+
+/**
+ * Parses the text of a search box, null when it is empty.
+ */
+export function createSearchQuery(text: string, mode: SearchMode): SearchQuery | null {
+    const terms = normalizeText(text).split(/\s+/).filter(term => term.length > 0);
+    if (terms.length === 0) {
+        return null;
+    }
+    return { mode, terms: mode === "exact" ? [terms.join(" ")] : terms };
+}
+
+function findTerm(normalized: string, term: string, mode: SearchMode): number {
+    switch (mode) {
+        case "exact":
+            return normalized.replace(/\s+/g, " ").trim() === term ? 0 : -1;
+        case "startsWith": {
+            // Start of the text or of any word in it
+            let index = normalized.indexOf(term);
+            while (index > 0 && !/[\s\-/(]/.test(normalized[index - 1])) {
+                index = normalized.indexOf(term, index + 1);
+            }
+            return index;
+        }
+        default:
+            return normalized.indexOf(term);
+    }
+}
+
+/**
+ * Checks whether every term of the query is found in at least one of the texts,
+ * which have to be normalized with normalizeText already (callers cache them).
+ */
+export function matchesQuery(normalizedTexts: string[], query: SearchQuery): boolean {
+    return query.terms.every(term => normalizedTexts.some(text => findTerm(text, term, query.mode) >= 0));
+}
+
+/**
+ * Ranges of the text matched by the query terms, merged and in order.
+ */
+export function findMatchRanges(text: string, query: SearchQuery): MatchRange[] {
+    const { normalized, positions } = normalizeWithPositions(text);
+    const ranges: MatchRange[] = [];
+
+    query.terms.forEach(term => {
+        const index = findTerm(normalized, term, query.mode);
+        if (index >= 0) {
+            const length = query.mode === "exact" ? normalized.length : term.length;
+            ranges.push([positions[index], positions[index + length]]);
+        }
+    });
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    return ranges.reduce((merged: MatchRange[], range) => {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            merged.push([range[0], range[1]]);
+        }
+        return merged;
+    }, []);
+}
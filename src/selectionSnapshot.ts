@@ -0,0 +1,173 @@
+/*
+*  Power BI Visual CLI
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved.
+*  MIT License
+*/
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+
+import PrimitiveValue = powerbi.PrimitiveValue;
+
+import { FilterCategory, FilterValue, RangeState, RelativeDatePeriod, RelativeDateUnit } from "./dataInterfaces";
+
+export interface RelativePeriodSettings {
+    relativePeriod: RelativeDatePeriod;
+    relativeCount: number;
+    relativeUnit: RelativeDateUnit;
+}
+
+// Selection state of one section, independent of the FilterValue objects so it
+// survives the model being rebuilt on update
+interface CategorySnapshot {
+    selectedKeys: Set<string>;
+    range?: RangeState;
+    relative?: RelativePeriodSettings;
+}
+
+// Keyed by the column's query name, which survives renaming the field in the Filters well
+export type SelectionSnapshot = Map<string, CategorySnapshot>;
+
+function getCategoryKey(category: FilterCategory): string {
+    return category.queryName ?? category.name;
+}
+
+/**
+ * State of a section in a snapshot. Presets saved by earlier versions are keyed by
+ * the section's display name, so that is looked up when the query name isn't found.
+ */
+export function getCategoryState(snapshot: SelectionSnapshot, category: FilterCategory): CategorySnapshot | undefined {
+    return snapshot.get(getCategoryKey(category)) ?? snapshot.get(category.name);
+}
+
+/**
+ * Identifies a data value independently of its label. Dates are compared by time.
+ */
+export function getValueKey(value: PrimitiveValue): string {
+    if (value == null) {
+        return "null";
+    }
+    return value instanceof Date ? `date:${value.getTime()}` : `${typeof value}:${value}`;
+}
+
+function getSelectionKey(value: FilterValue): string {
+    return value.key ?? getValueKey(value.rawValue);
+}
+
+// Hierarchy snapshots list the selected nodes of every level
+function getAllValues(category: FilterCategory): FilterValue[] {
+    return category.isHierarchy
+        ? (category.hierarchyLevels ?? []).flatMap(level => level.values)
+        : category.values;
+}
+
+export function captureSelection(categories: FilterCategory[]): SelectionSnapshot {
+    const snapshot: SelectionSnapshot = new Map();
+
+    categories.forEach(category => {
+        const selectedKeys = new Set(getAllValues(category).filter(val => val.selected).map(getSelectionKey));
+        const { relativePeriod, relativeCount, relativeUnit } = category.settings;
+
+        snapshot.set(getCategoryKey(category), {
+            selectedKeys,
+            range: category.range ? { ...category.range } : undefined,
+            relative: category.settings.sectionType === "relativeDate"
+                ? { relativePeriod, relativeCount, relativeUnit }
+                : undefined
+        });
+    });
+
+    return snapshot;
+}
+
+/**
+ * Writes a snapshot back into the model. Hierarchy parent states are not touched
+ * here; callers recompute them from the restored nodes.
+ */
+export function restoreSelection(categories: FilterCategory[], snapshot: SelectionSnapshot) {
+    categories.forEach(category => {
+        const state = getCategoryState(snapshot, category);
+        if (!state) {
+            return;
+        }
+
+        getAllValues(category).forEach(val => {
+            val.selected = state.selectedKeys.has(getSelectionKey(val));
+            val.indeterminate = false;
+        });
+
+        if (category.range && state.range) {
+            const { mode, from, to } = state.range;
+            Object.assign(category.range, { mode, from, to });
+        }
+        if (state.relative) {
+            Object.assign(category.settings, state.relative);
+        }
+    });
+}
+
+export function isSameRelativePeriod(a: RelativePeriodSettings, b: RelativePeriodSettings): boolean {
+    return a?.relativePeriod === b?.relativePeriod
+        && a?.relativeCount === b?.relativeCount
+        && a?.relativeUnit === b?.relativeUnit;
+}
+
+export function isSameSelection(a: SelectionSnapshot, b: SelectionSnapshot): boolean {
+    if (a.size !== b.size) {
+        return false;
+    }
+
+    for (const [name, state] of a) {
+        const other = b.get(name);
+        if (!other || state.selectedKeys.size !== other.selectedKeys.size
+            || [...state.selectedKeys].some(key => !other.selectedKeys.has(key))) {
+            return false;
+        }
+        if (state.range?.mode !== other.range?.mode
+            || state.range?.from !== other.range?.from
+            || state.range?.to !== other.range?.to) {
+            return false;
+        }
+        if (state.relative && !isSameRelativePeriod(state.relative, other.relative)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+// JSON form of a snapshot, used to store presets in the visual's properties
+export interface SerializedSelection {
+    [categoryKey: string]: {
+        keys: string[];
+        range?: RangeState;
+        relative?: RelativePeriodSettings;
+    };
+}
+
+export function serializeSelection(snapshot: SelectionSnapshot): SerializedSelection {
+    const serialized: SerializedSelection = {};
+    snapshot.forEach((state, name) => {
+        serialized[name] = {
+            keys: [...state.selectedKeys],
+            range: state.range,
+            relative: state.relative
+        };
+    });
+    return serialized;
+}
+
+export function deserializeSelection(serialized: SerializedSelection): SelectionSnapshot {
+    const snapshot: SelectionSnapshot = new Map();
+    Object.keys(serialized ?? {}).forEach(name => {
+        const state = serialized[name];
+        snapshot.set(name, {
+            selectedKeys: new Set(state.keys ?? []),
+            range: state.range,
+            relative: state.relative
+        });
+    });
+    return snapshot;
+}
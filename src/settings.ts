@@ -26,49 +26,763 @@
 
 "use strict";
 
+import powerbi from "powerbi-visuals-api";
 import { formattingSettings } from "powerbi-visuals-utils-formattingmodel";
 
 import FormattingSettingsCard = formattingSettings.SimpleCard;
+import FormattingSettingsCompositeCard = formattingSettings.CompositeCard;
+import FormattingSettingsGroup = formattingSettings.Group;
 import FormattingSettingsSlice = formattingSettings.Slice;
 import FormattingSettingsModel = formattingSettings.Model;
+import DataViewObjects = powerbi.DataViewObjects;
+import ILocalizationManager = powerbi.extensibility.ILocalizationManager;
+
+import {
+    FieldSettings, FilterCategory, RelativeDatePeriod, RelativeDateUnit, SectionType, SelectionMode, SortOrder,
+    UnavailableDisplay
+} from "./dataInterfaces";
+import { isAnchorDateValid } from "./relativeDate";
+
+// Dropdown items aren't translated by the formatting settings service, so they carry their own resource key
+interface LocalizedEnumMember extends powerbi.IEnumMember {
+    displayNameKey: string;
+}
+
+/**
+ * Replaces the items of a dropdown, and its current value, with their translations
+ */
+function localizeItems(dropdown: formattingSettings.ItemDropdown, localizationManager: ILocalizationManager) {
+    const items = (dropdown.items as LocalizedEnumMember[]).map(item => ({
+        ...item,
+        displayName: localizationManager.getDisplayName(item.displayNameKey)
+    }));
+    dropdown.items = items;
+    dropdown.value = items.find(item => item.value === dropdown.value?.value) ?? dropdown.value;
+}
+
+const menuPositionOptions: LocalizedEnumMember[] = [
+    { value: "left", displayName: "Left", displayNameKey: "Visual_MenuPosition_left" },
+    { value: "right", displayName: "Right", displayNameKey: "Visual_MenuPosition_right" }
+];
+
+const layoutOptions: LocalizedEnumMember[] = [
+    { value: "overlay", displayName: "Slide-out", displayNameKey: "Visual_Layout_overlay" },
+    { value: "docked", displayName: "Docked", displayNameKey: "Visual_Layout_docked" },
+    { value: "rail", displayName: "Rail", displayNameKey: "Visual_Layout_rail" },
+    { value: "drawerTop", displayName: "Top drawer", displayNameKey: "Visual_Layout_drawerTop" },
+    { value: "drawerBottom", displayName: "Bottom drawer", displayNameKey: "Visual_Layout_drawerBottom" }
+];
+
+/**
+ * Menu Panel Formatting Card
+ */
+class MenuCardSettings extends FormattingSettingsCard {
+    layout = new formattingSettings.ItemDropdown({
+        name: "layout",
+        displayName: "Layout",
+        displayNameKey: "Visual_Menu_Layout",
+        description: "Docked keeps the panel visible inside the visual; Rail shows one icon per section until expanded",
+        descriptionKey: "Visual_Menu_Layout_Description",
+        items: layoutOptions,
+        value: layoutOptions[0]
+    });
+
+    menuPosition = new formattingSettings.ItemDropdown({
+        name: "menuPosition",
+        displayName: "Menu Position",
+        displayNameKey: "Visual_Menu_MenuPosition",
+        items: menuPositionOptions,
+        value: menuPositionOptions[0]
+    });
+
+    menuWidth = new formattingSettings.NumUpDown({
+        name: "menuWidth",
+        displayName: "Menu Width (px)",
+        displayNameKey: "Visual_Menu_MenuWidth",
+        value: 380,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 200 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 1000 }
+        }
+    });
+
+    collapseWidth = new formattingSettings.NumUpDown({
+        name: "collapseWidth",
+        displayName: "Collapse Below Width (px)",
+        displayNameKey: "Visual_Menu_CollapseWidth",
+        description: "Docked and rail layouts fall back to the burger button when the visual is narrower; 0 never collapses",
+        descriptionKey: "Visual_Menu_CollapseWidth_Description",
+        value: 300,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 2000 }
+        }
+    });
+
+    backgroundColor = new formattingSettings.ColorPicker({
+        name: "backgroundColor",
+        displayName: "Background Color",
+        displayNameKey: "Visual_BackgroundColor",
+        value: { value: "#FFFFFF" }
+    });
+
+    overlayOpacity = new formattingSettings.Slider({
+        name: "overlayOpacity",
+        displayName: "Overlay Opacity (%)",
+        displayNameKey: "Visual_Menu_OverlayOpacity",
+        value: 50,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    title = new formattingSettings.TextInput({
+        name: "title",
+        displayName: "Title",
+        displayNameKey: "Visual_Menu_Title",
+        description: "Replaces the translated \"Filters\" title of the panel",
+        descriptionKey: "Visual_Menu_Title_Description",
+        placeholder: "Filters",
+        value: ""
+    });
+
+    name: string = "menu";
+    displayName: string = "Menu Panel";
+    displayNameKey: string = "Visual_Menu";
+    slices: Array<FormattingSettingsSlice> = [
+        this.layout, this.menuPosition, this.menuWidth, this.collapseWidth, this.backgroundColor, this.overlayOpacity, this.title
+    ];
+}
+
+const interactionModeOptions: LocalizedEnumMember[] = [
+    { value: "filter", displayName: "Filter", displayNameKey: "Visual_InteractionMode_filter" },
+    { value: "selection", displayName: "Cross-highlight", displayNameKey: "Visual_InteractionMode_selection" }
+];
 
 /**
- * Data Point Formatting Card
+ * Behavior Formatting Card
  */
-class DataPointCardSettings extends FormattingSettingsCard {
-    defaultColor = new formattingSettings.ColorPicker({
-        name: "defaultColor",
-        displayName: "Default color",
-        value: { value: "" }
+class BehaviorCardSettings extends FormattingSettingsCard {
+    interactionMode = new formattingSettings.ItemDropdown({
+        name: "interactionMode",
+        displayName: "Apply Selections As",
+        displayNameKey: "Visual_Behavior_InteractionMode",
+        description: "Filter applies a report filter like a slicer; cross-highlight only selects data points",
+        descriptionKey: "Visual_Behavior_InteractionMode_Description",
+        items: interactionModeOptions,
+        value: interactionModeOptions[0]
+    });
+
+    cascade = new formattingSettings.ToggleSwitch({
+        name: "cascade",
+        displayName: "Cascading Filters",
+        displayNameKey: "Visual_Behavior_Cascade",
+        description: "Selections in one section narrow the values of the other sections",
+        descriptionKey: "Visual_Behavior_Cascade_Description",
+        value: false
     });
 
-    showAllDataPoints = new formattingSettings.ToggleSwitch({
-        name: "showAllDataPoints",
-        displayName: "Show all",
+    applyButton = new formattingSettings.ToggleSwitch({
+        name: "applyButton",
+        displayName: "Apply Button",
+        displayNameKey: "Visual_Behavior_ApplyButton",
+        description: "Collect changes in the menu and apply them together with an Apply button",
+        descriptionKey: "Visual_Behavior_ApplyButton_Description",
+        value: false
+    });
+
+    name: string = "behavior";
+    displayName: string = "Behavior";
+    displayNameKey: string = "Visual_Behavior";
+    slices: Array<FormattingSettingsSlice> = [this.interactionMode, this.cascade, this.applyButton];
+}
+
+const launcherIconOptions: LocalizedEnumMember[] = [
+    { value: "burger", displayName: "Burger", displayNameKey: "Visual_Icon_burger" },
+    { value: "funnel", displayName: "Funnel", displayNameKey: "Visual_Icon_funnel" },
+    { value: "custom", displayName: "Custom", displayNameKey: "Visual_Icon_custom" }
+];
+
+const launcherShapeOptions: LocalizedEnumMember[] = [
+    { value: "square", displayName: "Square", displayNameKey: "Visual_Shape_square" },
+    { value: "circle", displayName: "Circle", displayNameKey: "Visual_Shape_circle" },
+    { value: "pill", displayName: "Pill", displayNameKey: "Visual_Shape_pill" }
+];
+
+const launcherAnchorOptions: LocalizedEnumMember[] = [
+    { value: "topLeft", displayName: "Top left", displayNameKey: "Visual_Anchor_topLeft" },
+    { value: "topRight", displayName: "Top right", displayNameKey: "Visual_Anchor_topRight" },
+    { value: "bottomLeft", displayName: "Bottom left", displayNameKey: "Visual_Anchor_bottomLeft" },
+    { value: "bottomRight", displayName: "Bottom right", displayNameKey: "Visual_Anchor_bottomRight" }
+];
+
+/**
+ * Burger Button Formatting Card
+ */
+class BurgerButtonCardSettings extends FormattingSettingsCard {
+    icon = new formattingSettings.ItemDropdown({
+        name: "icon",
+        displayName: "Icon",
+        displayNameKey: "Visual_BurgerButton_Icon",
+        items: launcherIconOptions,
+        value: launcherIconOptions[0]
+    });
+
+    customIcon = new formattingSettings.TextInput({
+        name: "customIcon",
+        displayName: "Custom Icon",
+        displayNameKey: "Visual_BurgerButton_CustomIcon",
+        description: "SVG markup or an image URL (data: URLs always work)",
+        descriptionKey: "Visual_BurgerButton_CustomIcon_Description",
+        placeholder: "<svg ...> or https://...",
+        value: ""
+    });
+
+    label = new formattingSettings.TextInput({
+        name: "label",
+        displayName: "Label",
+        displayNameKey: "Visual_BurgerButton_Label",
+        description: "Text shown next to the icon, e.g. \"Filters\"",
+        descriptionKey: "Visual_BurgerButton_Label_Description",
+        placeholder: "No label",
+        value: ""
+    });
+
+    shape = new formattingSettings.ItemDropdown({
+        name: "shape",
+        displayName: "Shape",
+        displayNameKey: "Visual_BurgerButton_Shape",
+        description: "Square uses the corner radius; a circle with a label becomes a pill",
+        descriptionKey: "Visual_BurgerButton_Shape_Description",
+        items: launcherShapeOptions,
+        value: launcherShapeOptions[0]
+    });
+
+    anchor = new formattingSettings.ItemDropdown({
+        name: "anchor",
+        displayName: "Position",
+        displayNameKey: "Visual_BurgerButton_Anchor",
+        items: launcherAnchorOptions,
+        value: launcherAnchorOptions[0]
+    });
+
+    showCount = new formattingSettings.ToggleSwitch({
+        name: "showCount",
+        displayName: "Show Active Count",
+        displayNameKey: "Visual_BurgerButton_ShowCount",
+        description: "Number of filtered sections on the button",
+        descriptionKey: "Visual_BurgerButton_ShowCount_Description",
         value: true
     });
 
-    fill = new formattingSettings.ColorPicker({
-        name: "fill",
-        displayName: "Fill",
-        value: { value: "" }
+    buttonColor = new formattingSettings.ColorPicker({
+        name: "buttonColor",
+        displayName: "Button Color",
+        displayNameKey: "Visual_BurgerButton_ButtonColor",
+        value: { value: "#333333" }
+    });
+
+    iconColor = new formattingSettings.ColorPicker({
+        name: "iconColor",
+        displayName: "Icon and Label Color",
+        displayNameKey: "Visual_BurgerButton_IconColor",
+        value: { value: "#FFFFFF" }
     });
 
-    fillRule = new formattingSettings.ColorPicker({
-        name: "fillRule",
-        displayName: "Color saturation",
-        value: { value: "" }
+    buttonSize = new formattingSettings.NumUpDown({
+        name: "buttonSize",
+        displayName: "Button Size (px)",
+        displayNameKey: "Visual_BurgerButton_ButtonSize",
+        value: 50,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 24 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 120 }
+        }
+    });
+
+    cornerRadius = new formattingSettings.NumUpDown({
+        name: "cornerRadius",
+        displayName: "Corner Radius (px)",
+        displayNameKey: "Visual_BurgerButton_CornerRadius",
+        value: 5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 60 }
+        }
+    });
+
+    name: string = "burgerButton";
+    displayName: string = "Burger Button";
+    displayNameKey: string = "Visual_BurgerButton";
+    slices: Array<FormattingSettingsSlice> = [
+        this.icon, this.customIcon, this.label, this.shape, this.anchor, this.showCount,
+        this.buttonColor, this.iconColor, this.buttonSize, this.cornerRadius
+    ];
+}
+
+/**
+ * Section Header Formatting Card
+ */
+class SectionHeaderCardSettings extends FormattingSettingsCard {
+    backgroundColor = new formattingSettings.ColorPicker({
+        name: "backgroundColor",
+        displayName: "Background Color",
+        displayNameKey: "Visual_BackgroundColor",
+        value: { value: "#F5F5F5" }
+    });
+
+    fontColor = new formattingSettings.ColorPicker({
+        name: "fontColor",
+        displayName: "Font Color",
+        displayNameKey: "Visual_FontColor",
+        value: { value: "#333333" }
     });
 
     fontSize = new formattingSettings.NumUpDown({
         name: "fontSize",
         displayName: "Text Size",
-        value: 12
+        displayNameKey: "Visual_TextSize",
+        value: 14
     });
 
-    name: string = "dataPoint";
-    displayName: string = "Data colors";
-    slices: Array<FormattingSettingsSlice> = [this.defaultColor, this.showAllDataPoints, this.fill, this.fillRule, this.fontSize];
+    name: string = "sectionHeader";
+    displayName: string = "Section Headers";
+    displayNameKey: string = "Visual_SectionHeader";
+    slices: Array<FormattingSettingsSlice> = [this.backgroundColor, this.fontColor, this.fontSize];
+}
+
+/**
+ * Value Items Formatting Card
+ */
+class ValueItemsCardSettings extends FormattingSettingsCard {
+    backgroundColor = new formattingSettings.ColorPicker({
+        name: "backgroundColor",
+        displayName: "Background Color",
+        displayNameKey: "Visual_BackgroundColor",
+        value: { value: "#FFFFFF" }
+    });
+
+    fontColor = new formattingSettings.ColorPicker({
+        name: "fontColor",
+        displayName: "Font Color",
+        displayNameKey: "Visual_FontColor",
+        value: { value: "#333333" }
+    });
+
+    fontSize = new formattingSettings.NumUpDown({
+        name: "fontSize",
+        displayName: "Text Size",
+        displayNameKey: "Visual_TextSize",
+        value: 13
+    });
+
+    selectedColor = new formattingSettings.ColorPicker({
+        name: "selectedColor",
+        displayName: "Selected Background",
+        displayNameKey: "Visual_ValueItems_SelectedColor",
+        value: { value: "#E8F4F8" }
+    });
+
+    accentColor = new formattingSettings.ColorPicker({
+        name: "accentColor",
+        displayName: "Accent Color",
+        displayNameKey: "Visual_ValueItems_AccentColor",
+        value: { value: "#2196F3" }
+    });
+
+    blankLabel = new formattingSettings.TextInput({
+        name: "blankLabel",
+        displayName: "Blank Label",
+        displayNameKey: "Visual_ValueItems_BlankLabel",
+        description: "Shown for empty values instead of the translated \"(Blank)\"",
+        descriptionKey: "Visual_ValueItems_BlankLabel_Description",
+        placeholder: "(Blank)",
+        value: ""
+    });
+
+    showItemsWithNoData = new formattingSettings.ToggleSwitch({
+        name: "showItemsWithNoData",
+        displayName: "Show Items With No Data",
+        displayNameKey: "Visual_ValueItems_ShowItemsWithNoData",
+        description: "While another visual highlights data, values without highlighted data are dimmed; turn off to hide them",
+        descriptionKey: "Visual_ValueItems_ShowItemsWithNoData_Description",
+        value: true
+    });
+
+    name: string = "valueItems";
+    displayName: string = "Value Items";
+    displayNameKey: string = "Visual_ValueItems";
+    slices: Array<FormattingSettingsSlice> = [
+        this.backgroundColor, this.fontColor, this.fontSize, this.selectedColor, this.accentColor, this.blankLabel,
+        this.showItemsWithNoData
+    ];
+}
+
+const matchModeOptions: LocalizedEnumMember[] = [
+    { value: "contains", displayName: "Contains", displayNameKey: "Visual_MatchMode_contains" },
+    { value: "startsWith", displayName: "Starts with", displayNameKey: "Visual_MatchMode_startsWith" },
+    { value: "exact", displayName: "Exact match", displayNameKey: "Visual_MatchMode_exact" }
+];
+
+/**
+ * Search Box Formatting Card
+ */
+class SearchBoxCardSettings extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show Search Box",
+        displayNameKey: "Visual_SearchBox_Show",
+        value: true
+    });
+
+    backgroundColor = new formattingSettings.ColorPicker({
+        name: "backgroundColor",
+        displayName: "Background Color",
+        displayNameKey: "Visual_BackgroundColor",
+        value: { value: "#FFFFFF" }
+    });
+
+    borderColor = new formattingSettings.ColorPicker({
+        name: "borderColor",
+        displayName: "Border Color",
+        displayNameKey: "Visual_SearchBox_BorderColor",
+        value: { value: "#DDDDDD" }
+    });
+
+    matchMode = new formattingSettings.ItemDropdown({
+        name: "matchMode",
+        displayName: "Match",
+        displayNameKey: "Visual_SearchBox_MatchMode",
+        description: "Accents and case are ignored; all words typed have to match",
+        descriptionKey: "Visual_SearchBox_MatchMode_Description",
+        items: matchModeOptions,
+        value: matchModeOptions[0]
+    });
+
+    topLevelSlice = this.show;
+    name: string = "searchBox";
+    displayName: string = "Search Box";
+    displayNameKey: string = "Visual_SearchBox";
+    slices: Array<FormattingSettingsSlice> = [this.matchMode, this.backgroundColor, this.borderColor];
+}
+
+/**
+ * Typography Formatting Card
+ */
+class TypographyCardSettings extends FormattingSettingsCard {
+    fontFamily = new formattingSettings.FontPicker({
+        name: "fontFamily",
+        displayName: "Font Family",
+        displayNameKey: "Visual_Typography_FontFamily",
+        value: "Segoe UI, wf_segoe-ui_normal, helvetica, arial, sans-serif"
+    });
+
+    titleFontSize = new formattingSettings.NumUpDown({
+        name: "titleFontSize",
+        displayName: "Title Text Size",
+        displayNameKey: "Visual_Typography_TitleFontSize",
+        value: 22
+    });
+
+    titleColor = new formattingSettings.ColorPicker({
+        name: "titleColor",
+        displayName: "Title Color",
+        displayNameKey: "Visual_Typography_TitleColor",
+        value: { value: "#333333" }
+    });
+
+    name: string = "typography";
+    displayName: string = "Typography";
+    displayNameKey: string = "Visual_Typography";
+    slices: Array<FormattingSettingsSlice> = [this.fontFamily, this.titleFontSize, this.titleColor];
+}
+
+const selectionModeOptions: LocalizedEnumMember[] = [
+    { value: "multi", displayName: "Multi-select (checkboxes)", displayNameKey: "Visual_SelectionMode_multi" },
+    { value: "single", displayName: "Single-select (radio buttons)", displayNameKey: "Visual_SelectionMode_single" }
+];
+
+const sortOrderOptions: LocalizedEnumMember[] = [
+    { value: "data", displayName: "Data order", displayNameKey: "Visual_SortOrder_data" },
+    { value: "ascending", displayName: "A to Z", displayNameKey: "Visual_SortOrder_ascending" },
+    { value: "descending", displayName: "Z to A", displayNameKey: "Visual_SortOrder_descending" },
+    { value: "measure", displayName: "By value", displayNameKey: "Visual_SortOrder_measure" }
+];
+
+const unavailableItemsOptions: LocalizedEnumMember[] = [
+    { value: "dim", displayName: "Grey out", displayNameKey: "Visual_UnavailableItems_dim" },
+    { value: "hide", displayName: "Hide", displayNameKey: "Visual_UnavailableItems_hide" },
+    { value: "sortLast", displayName: "Sort last", displayNameKey: "Visual_UnavailableItems_sortLast" }
+];
+
+const sectionTypeOptions: LocalizedEnumMember[] = [
+    { value: "list", displayName: "Value list", displayNameKey: "Visual_SectionType_list" },
+    { value: "range", displayName: "Range slider", displayNameKey: "Visual_SectionType_range" }
+];
+
+// Relative date periods only make sense for date columns
+const dateSectionTypeOptions: LocalizedEnumMember[] = [
+    ...sectionTypeOptions,
+    { value: "relativeDate", displayName: "Relative date", displayNameKey: "Visual_SectionType_relativeDate" }
+];
+
+export const relativePeriodOptions: LocalizedEnumMember[] = [
+    { value: "none", displayName: "Not filtered", displayNameKey: "Visual_RelativePeriod_none" },
+    { value: "last", displayName: "Last", displayNameKey: "Visual_RelativePeriod_last" },
+    { value: "this", displayName: "This", displayNameKey: "Visual_RelativePeriod_this" },
+    { value: "toDate", displayName: "To date", displayNameKey: "Visual_RelativePeriod_toDate" }
+];
+
+export const relativeUnitOptions: LocalizedEnumMember[] = [
+    { value: "days", displayName: "Days", displayNameKey: "Visual_RelativeUnit_days" },
+    { value: "weeks", displayName: "Weeks", displayNameKey: "Visual_RelativeUnit_weeks" },
+    { value: "months", displayName: "Months", displayNameKey: "Visual_RelativeUnit_months" },
+    { value: "quarters", displayName: "Quarters", displayNameKey: "Visual_RelativeUnit_quarters" },
+    { value: "years", displayName: "Years", displayNameKey: "Visual_RelativeUnit_years" }
+];
+
+export const defaultFieldSettings: FieldSettings = {
+    displayName: "",
+    hidden: false,
+    defaultCollapsed: false,
+    showSearch: true,
+    maxHeight: 0,
+    selectionMode: "multi",
+    requireSelection: false,
+    defaultValue: "",
+    sortOrder: "data",
+    pinSelected: false,
+    unavailableItems: "dim",
+    sectionType: "list",
+    relativePeriod: "none",
+    relativeCount: 7,
+    relativeUnit: "days",
+    anchorDate: ""
+};
+
+/**
+ * Reads the per-field settings stored on a column's metadata objects
+ */
+export function readFieldSettings(objects: DataViewObjects): FieldSettings {
+    const fieldObject = objects?.fieldSettings ?? {};
+    return {
+        displayName: (fieldObject.displayName as string) ?? defaultFieldSettings.displayName,
+        hidden: (fieldObject.hidden as boolean) ?? defaultFieldSettings.hidden,
+        defaultCollapsed: (fieldObject.defaultCollapsed as boolean) ?? defaultFieldSettings.defaultCollapsed,
+        showSearch: (fieldObject.showSearch as boolean) ?? defaultFieldSettings.showSearch,
+        maxHeight: (fieldObject.maxHeight as number) ?? defaultFieldSettings.maxHeight,
+        selectionMode: (fieldObject.selectionMode as SelectionMode) ?? defaultFieldSettings.selectionMode,
+        requireSelection: (fieldObject.requireSelection as boolean) ?? defaultFieldSettings.requireSelection,
+        defaultValue: (fieldObject.defaultValue as string) ?? defaultFieldSettings.defaultValue,
+        sortOrder: (fieldObject.sortOrder as SortOrder) ?? defaultFieldSettings.sortOrder,
+        pinSelected: (fieldObject.pinSelected as boolean) ?? defaultFieldSettings.pinSelected,
+        unavailableItems: (fieldObject.unavailableItems as UnavailableDisplay) ?? defaultFieldSettings.unavailableItems,
+        sectionType: (fieldObject.sectionType as SectionType) ?? defaultFieldSettings.sectionType,
+        relativePeriod: (fieldObject.relativePeriod as RelativeDatePeriod) ?? defaultFieldSettings.relativePeriod,
+        relativeCount: (fieldObject.relativeCount as number) ?? defaultFieldSettings.relativeCount,
+        relativeUnit: (fieldObject.relativeUnit as RelativeDateUnit) ?? defaultFieldSettings.relativeUnit,
+        anchorDate: (fieldObject.anchorDate as string) ?? defaultFieldSettings.anchorDate
+    };
+}
+
+/**
+ * Field Settings Formatting Card
+ * One group per field in the Filters well, bound to the column through a metadata selector
+ */
+class FieldSettingsCard extends FormattingSettingsCompositeCard {
+    name: string = "fieldSettings";
+    displayName: string = "Fields";
+    displayNameKey: string = "Visual_FieldSettings";
+    groups: Array<FormattingSettingsGroup> = [];
+
+    public populate(categories: FilterCategory[], cascade: boolean, localizationManager: ILocalizationManager) {
+        this.groups = categories
+            .filter(category => !!category.queryName)
+            .map((category, index) => {
+                const selector: powerbi.data.Selector = { metadata: category.queryName };
+                const settings = category.settings;
+                const slices: Array<FormattingSettingsSlice> = [
+                    new formattingSettings.TextInput({
+                        name: "displayName",
+                        displayName: "Display Name",
+                        displayNameKey: "Visual_FieldSettings_DisplayName",
+                        placeholder: category.name,
+                        value: settings.displayName,
+                        selector
+                    }),
+                    new formattingSettings.ToggleSwitch({
+                        name: "hidden",
+                        displayName: "Hide in Menu",
+                        displayNameKey: "Visual_FieldSettings_Hidden",
+                        description: "The field still filters through its default value and presets, but has no section",
+                        descriptionKey: "Visual_FieldSettings_Hidden_Description",
+                        value: settings.hidden,
+                        selector
+                    }),
+                    new formattingSettings.ToggleSwitch({
+                        name: "defaultCollapsed",
+                        displayName: "Collapsed by Default",
+                        displayNameKey: "Visual_FieldSettings_DefaultCollapsed",
+                        value: settings.defaultCollapsed,
+                        selector
+                    })
+                ];
+
+                if (!category.range) {
+                    slices.push(
+                        new formattingSettings.ToggleSwitch({
+                            name: "showSearch",
+                            displayName: "Show Search Box",
+                            displayNameKey: "Visual_FieldSettings_ShowSearch",
+                            value: settings.showSearch,
+                            selector
+                        }),
+                        new formattingSettings.NumUpDown({
+                            name: "maxHeight",
+                            displayName: "Max List Height (px)",
+                            displayNameKey: "Visual_FieldSettings_MaxHeight",
+                            description: "0 uses the default height",
+                            descriptionKey: "Visual_FieldSettings_MaxHeight_Description",
+                            value: settings.maxHeight,
+                            options: {
+                                minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+                                maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 2000 }
+                            },
+                            selector
+                        })
+                    );
+                }
+
+                // Numeric and date columns can be shown as a range instead of a value list
+                if (!category.isHierarchy && category.valueType !== "text") {
+                    const typeOptions = category.valueType === "dateTime" ? dateSectionTypeOptions : sectionTypeOptions;
+                    slices.push(new formattingSettings.ItemDropdown({
+                        name: "sectionType",
+                        displayName: "Section Type",
+                        displayNameKey: "Visual_FieldSettings_SectionType",
+                        items: typeOptions,
+                        value: typeOptions.find(option => option.value === settings.sectionType) ?? typeOptions[0],
+                        selector
+                    }));
+                }
+
+                if (category.range && settings.sectionType === "relativeDate") {
+                    const anchorValid = isAnchorDateValid(settings);
+                    slices.push(
+                        new formattingSettings.ItemDropdown({
+                            name: "relativePeriod",
+                            displayName: "Period",
+                            displayNameKey: "Visual_FieldSettings_RelativePeriod",
+                            items: relativePeriodOptions,
+                            value: relativePeriodOptions.find(option => option.value === settings.relativePeriod) ?? relativePeriodOptions[0],
+                            selector
+                        }),
+                        new formattingSettings.NumUpDown({
+                            name: "relativeCount",
+                            displayName: "Count",
+                            displayNameKey: "Visual_FieldSettings_RelativeCount",
+                            value: settings.relativeCount,
+                            options: {
+                                minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 },
+                                maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 1000 }
+                            },
+                            selector
+                        }),
+                        new formattingSettings.ItemDropdown({
+                            name: "relativeUnit",
+                            displayName: "Unit",
+                            displayNameKey: "Visual_FieldSettings_RelativeUnit",
+                            items: relativeUnitOptions,
+                            value: relativeUnitOptions.find(option => option.value === settings.relativeUnit) ?? relativeUnitOptions[0],
+                            selector
+                        }),
+                        new formattingSettings.TextInput({
+                            name: "anchorDate",
+                            // Invalid dates are ignored, so the pane says why the period uses today
+                            displayName: anchorValid ? "Anchor Date" : "Anchor Date (invalid)",
+                            displayNameKey: anchorValid ? "Visual_FieldSettings_AnchorDate" : "Visual_FieldSettings_AnchorDate_Invalid",
+                            description: anchorValid
+                                ? "Date (yyyy-mm-dd) the period is computed against; empty uses today"
+                                : "Not a valid yyyy-mm-dd date; today is used instead",
+                            descriptionKey: anchorValid
+                                ? "Visual_FieldSettings_AnchorDate_Description"
+                                : "Visual_FieldSettings_AnchorDate_InvalidDescription",
+                            placeholder: localizationManager.getDisplayName("Visual_FieldSettings_AnchorDate_Placeholder"),
+                            value: settings.anchorDate,
+                            selector
+                        })
+                    );
+                }
+
+                if (!category.range) {
+                    slices.push(
+                        new formattingSettings.ItemDropdown({
+                            name: "selectionMode",
+                            displayName: "Selection Mode",
+                            displayNameKey: "Visual_FieldSettings_SelectionMode",
+                            items: selectionModeOptions,
+                            value: selectionModeOptions.find(option => option.value === settings.selectionMode) ?? selectionModeOptions[0],
+                            selector
+                        }),
+                        new formattingSettings.ToggleSwitch({
+                            name: "requireSelection",
+                            displayName: "Always Keep a Selection",
+                            displayNameKey: "Visual_FieldSettings_RequireSelection",
+                            value: settings.requireSelection,
+                            selector
+                        }),
+                        new formattingSettings.TextInput({
+                            name: "defaultValue",
+                            displayName: "Default Value",
+                            displayNameKey: "Visual_FieldSettings_DefaultValue",
+                            description: "Selected when nothing is chosen. Use \"Parent > Child\" for hierarchies; empty selects the first value",
+                            descriptionKey: "Visual_FieldSettings_DefaultValue_Description",
+                            placeholder: localizationManager.getDisplayName("Visual_FieldSettings_DefaultValue_Placeholder"),
+                            value: settings.defaultValue,
+                            selector
+                        }),
+                        new formattingSettings.ItemDropdown({
+                            name: "sortOrder",
+                            displayName: "Sort Order",
+                            displayNameKey: "Visual_FieldSettings_SortOrder",
+                            description: "\"By value\" sorts by the measure in the Value well, largest first",
+                            descriptionKey: "Visual_FieldSettings_SortOrder_Description",
+                            items: sortOrderOptions,
+                            value: sortOrderOptions.find(option => option.value === settings.sortOrder) ?? sortOrderOptions[0],
+                            selector
+                        }),
+                        new formattingSettings.ToggleSwitch({
+                            name: "pinSelected",
+                            displayName: "Selected on Top",
+                            displayNameKey: "Visual_FieldSettings_PinSelected",
+                            value: settings.pinSelected,
+                            selector
+                        })
+                    );
+                }
+
+                if (!category.range && cascade) {
+                    slices.push(new formattingSettings.ItemDropdown({
+                        name: "unavailableItems",
+                        displayName: "Unavailable Values",
+                        displayNameKey: "Visual_FieldSettings_UnavailableItems",
+                        description: "Values without data for the selections in the other sections",
+                        descriptionKey: "Visual_FieldSettings_UnavailableItems_Description",
+                        items: unavailableItemsOptions,
+                        value: unavailableItemsOptions.find(option => option.value === settings.unavailableItems) ?? unavailableItemsOptions[0],
+                        selector
+                    }));
+                }
+
+                return new FormattingSettingsGroup({
+                    name: `fieldSettings${index}`,
+                    displayName: category.name,
+                    slices
+                });
+            });
+        this.visible = this.groups.length > 0;
+    }
 }
 
 /**
@@ -77,7 +791,51 @@ class DataPointCardSettings extends FormattingSettingsCard {
 */
 export class VisualFormattingSettingsModel extends FormattingSettingsModel {
     // Create formatting settings model formatting cards
-    dataPointCard = new DataPointCardSettings();
+    menuCard = new MenuCardSettings();
+    behaviorCard = new BehaviorCardSettings();
+    burgerButtonCard = new BurgerButtonCardSettings();
+    sectionHeaderCard = new SectionHeaderCardSettings();
+    valueItemsCard = new ValueItemsCardSettings();
+    searchBoxCard = new SearchBoxCardSettings();
+    typographyCard = new TypographyCardSettings();
+    fieldSettingsCard = new FieldSettingsCard();
+
+    cards = [
+        this.menuCard,
+        this.behaviorCard,
+        this.burgerButtonCard,
+        this.sectionHeaderCard,
+        this.valueItemsCard,
+        this.searchBoxCard,
+        this.typographyCard,
+        this.fieldSettingsCard
+    ];
+
+    /**
+     * Reports saved before the Burger Button card kept the button color in the menu
+     * object. It is used until a color is set on the new card.
+     */
+    public readLegacyProperties(objects: DataViewObjects) {
+        const legacyColor = (objects?.menu?.buttonColor as powerbi.Fill)?.solid?.color;
+        if (legacyColor && objects?.burgerButton?.buttonColor === undefined) {
+            this.burgerButtonCard.buttonColor.value = { value: legacyColor };
+        }
+    }
+
+    /**
+     * Translates what the formatting settings service doesn't: dropdown items and
+     * input placeholders. Names and descriptions are translated through their keys.
+     */
+    public localize(localizationManager: ILocalizationManager) {
+        this.cards
+            .flatMap(card => card instanceof FormattingSettingsCompositeCard
+                ? card.groups.flatMap(group => group.slices)
+                : card.slices)
+            .filter(slice => slice instanceof formattingSettings.ItemDropdown)
+            .forEach(slice => localizeItems(slice as formattingSettings.ItemDropdown, localizationManager));
 
-    cards = [this.dataPointCard];
+        this.menuCard.title.placeholder = localizationManager.getDisplayName("Visual_Filters");
+        this.burgerButtonCard.label.placeholder = localizationManager.getDisplayName("Visual_BurgerButton_Label_Placeholder");
+        this.valueItemsCard.blankLabel.placeholder = localizationManager.getDisplayName("Visual_Blank");
+    }
 }
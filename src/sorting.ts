@@ -0,0 +1,75 @@
+/*
+*  Power BI Visual CLI
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved.
+*  MIT License
+*/
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+
+import PrimitiveValue = powerbi.PrimitiveValue;
+
+import { FieldSettings, FilterValue } from "./dataInterfaces";
+
+function toComparable(value: PrimitiveValue): number | null {
+    if (value instanceof Date) {
+        return value.getTime();
+    }
+    return typeof value === "number" && !isNaN(value) ? value : null;
+}
+
+/**
+ * Alphabetical order with the collation of the report locale. Numbers and dates are
+ * compared by value, so "10" doesn't land between "1" and "2". Blanks always go last.
+ */
+function compareValues(a: FilterValue, b: FilterValue, collator: Intl.Collator): number {
+    const aBlank = a.rawValue == null;
+    const bBlank = b.rawValue == null;
+    if (aBlank || bBlank) {
+        return Number(aBlank) - Number(bBlank);
+    }
+
+    const aNumber = toComparable(a.rawValue);
+    const bNumber = toComparable(b.rawValue);
+    if (aNumber !== null && bNumber !== null) {
+        return aNumber - bNumber;
+    }
+    return collator.compare(a.value, b.value);
+}
+
+/**
+ * Returns the values in the order configured for their section. The model keeps the
+ * Power BI row order, so "data order" is a plain copy. Sorting is stable, which keeps
+ * the data order for equal values.
+ */
+export function sortValues(values: FilterValue[], settings: FieldSettings, collator: Intl.Collator): FilterValue[] {
+    const sorted = [...values];
+
+    switch (settings.sortOrder) {
+        case "ascending":
+            sorted.sort((a, b) => compareValues(a, b, collator));
+            break;
+        case "descending":
+            sorted.sort((a, b) => {
+                // Blanks stay last in both directions
+                const aBlank = a.rawValue == null;
+                const bBlank = b.rawValue == null;
+                return aBlank || bBlank ? Number(aBlank) - Number(bBlank) : compareValues(b, a, collator);
+            });
+            break;
+        case "measure":
+            // Largest first, values without a measure last
+            sorted.sort((a, b) => (b.measure ?? -Infinity) - (a.measure ?? -Infinity) || 0);
+            break;
+    }
+
+    if (settings.pinSelected) {
+        // Partially selected hierarchy nodes count as selected
+        const isPinned = (value: FilterValue) => value.selected || !!value.indeterminate;
+        sorted.sort((a, b) => Number(isPinned(b)) - Number(isPinned(a)));
+    }
+
+    return sorted;
+}
@@ -0,0 +1,271 @@
+/*
+*  Power BI Visual CLI
+*
+*  Copyright (c) Microsoft Corporation
+*  All rights reserved.
+*  MIT License
+*/
+"use strict";
+
+export interface VirtualListOptions<T> {
+    // Scrollable viewport the rows are rendered into
+    container: HTMLElement;
+    rowHeight: number;
+    // Viewport height to assume while the container is not attached to the DOM yet
+    fallbackHeight: number;
+    renderRow: (row: T, index: number) => HTMLElement;
+    emptyText?: string;
+    overscan?: number;
+    // Keys other than the list navigation keys, pressed while a row has focus
+    onRowKeyDown?: (row: T, index: number, event: KeyboardEvent) => void;
+}
+
+/**
+ * Windowed list with fixed row heights. Only the rows inside the visible
+ * viewport (plus a small overscan) have DOM nodes; everything else is
+ * represented by the height of the content element.
+ *
+ * The list is a single tab stop with roving focus: the active row has
+ * tabindex 0, the others -1, and the arrow, Home/End and Page keys move focus.
+ */
+export class VirtualList<T> {
+    private options: VirtualListOptions<T>;
+    private content: HTMLElement;
+    private emptyElement: HTMLElement;
+    private rows: T[] = [];
+    private renderedRows: Map<number, HTMLElement> = new Map();
+    private frameRequested: boolean = false;
+    private activeIndex: number = 0;
+
+    constructor(options: VirtualListOptions<T>) {
+        this.options = options;
+
+        this.content = document.createElement("div");
+        this.content.className = "virtual-list-content";
+        options.container.appendChild(this.content);
+
+        options.container.addEventListener("scroll", () => this.scheduleRender());
+        this.content.addEventListener("keydown", (event: KeyboardEvent) => this.handleKeyDown(event));
+        this.content.addEventListener("focusin", (event: FocusEvent) => {
+            const index = this.getRowIndex(event.target as HTMLElement);
+            if (index !== undefined) {
+                this.setActiveIndex(index);
+            }
+        });
+    }
+
+    public get scrollTop(): number {
+        return this.options.container.scrollTop;
+    }
+
+    public set scrollTop(value: number) {
+        this.options.container.scrollTop = value;
+        this.render();
+    }
+
+    /**
+     * Replaces the rows. The scroll position is kept so expanding or collapsing
+     * a node doesn't move the list.
+     */
+    public setRows(rows: T[]) {
+        const hadFocus = this.content.contains(document.activeElement);
+
+        this.rows = rows;
+        this.activeIndex = Math.max(0, Math.min(this.activeIndex, rows.length - 1));
+        this.content.style.height = `${rows.length * this.options.rowHeight}px`;
+        this.updateEmptyState();
+        this.clearRenderedRows();
+        this.render();
+
+        if (hadFocus) {
+            this.focusRow(this.activeIndex);
+        }
+    }
+
+    /**
+     * Re-renders the rows that currently have DOM nodes, e.g. after their selection changed.
+     */
+    public refresh() {
+        const focusedIndex = this.getRowIndex(document.activeElement as HTMLElement);
+
+        this.renderedRows.forEach((element, index) => {
+            const replacement = this.createRow(index);
+            element.replaceWith(replacement);
+            this.renderedRows.set(index, replacement);
+        });
+
+        if (focusedIndex !== undefined) {
+            this.renderedRows.get(focusedIndex)?.focus();
+        }
+    }
+
+    /**
+     * Index of the row that has keyboard focus, undefined when focus is elsewhere.
+     */
+    public getFocusedIndex(): number | undefined {
+        return this.getRowIndex(document.activeElement as HTMLElement);
+    }
+
+    /**
+     * Makes a row the active one, scrolls it into view and focuses it.
+     */
+    public focusRow(index: number) {
+        if (this.rows.length === 0) {
+            return;
+        }
+        this.setActiveIndex(Math.max(0, Math.min(this.rows.length - 1, index)));
+        this.scrollToIndex(this.activeIndex);
+        this.renderedRows.get(this.activeIndex)?.focus();
+    }
+
+    public scrollToIndex(index: number) {
+        const container = this.options.container;
+        const rowTop = index * this.options.rowHeight;
+        const rowBottom = rowTop + this.options.rowHeight;
+        const viewportHeight = container.clientHeight || this.options.fallbackHeight;
+
+        if (rowTop < container.scrollTop) {
+            container.scrollTop = rowTop;
+        } else if (rowBottom > container.scrollTop + viewportHeight) {
+            container.scrollTop = rowBottom - viewportHeight;
+        }
+        this.render();
+    }
+
+    private getRowIndex(target: HTMLElement): number | undefined {
+        for (const [index, element] of this.renderedRows) {
+            if (element.contains(target)) {
+                return index;
+            }
+        }
+        return undefined;
+    }
+
+    private setActiveIndex(index: number) {
+        if (index === this.activeIndex) {
+            return;
+        }
+        const previous = this.renderedRows.get(this.activeIndex);
+        if (previous) {
+            previous.tabIndex = -1;
+        }
+        this.activeIndex = index;
+        const current = this.renderedRows.get(index);
+        if (current) {
+            current.tabIndex = 0;
+        }
+    }
+
+    private handleKeyDown(event: KeyboardEvent) {
+        const index = this.getRowIndex(event.target as HTMLElement);
+        if (index === undefined) {
+            return;
+        }
+
+        const viewportHeight = this.options.container.clientHeight || this.options.fallbackHeight;
+        const pageSize = Math.max(1, Math.floor(viewportHeight / this.options.rowHeight) - 1);
+        let next: number;
+
+        switch (event.key) {
+            case "ArrowDown":
+                next = index + 1;
+                break;
+            case "ArrowUp":
+                next = index - 1;
+                break;
+            case "PageDown":
+                next = index + pageSize;
+                break;
+            case "PageUp":
+                next = index - pageSize;
+                break;
+            case "Home":
+                next = 0;
+                break;
+            case "End":
+                next = this.rows.length - 1;
+                break;
+            default:
+                this.options.onRowKeyDown?.(this.rows[index], index, event);
+                return;
+        }
+
+        event.preventDefault();
+        this.focusRow(next);
+    }
+
+    private scheduleRender() {
+        if (this.frameRequested) {
+            return;
+        }
+        this.frameRequested = true;
+        requestAnimationFrame(() => {
+            this.frameRequested = false;
+            this.render();
+        });
+    }
+
+    private render() {
+        const { container, rowHeight, fallbackHeight, overscan = 5 } = this.options;
+        const viewportHeight = container.clientHeight || fallbackHeight;
+        const scrollTop = Math.max(0, container.scrollTop - this.content.offsetTop);
+
+        const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+        const last = Math.min(this.rows.length - 1, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+        // Drop rows that scrolled out of the window
+        this.renderedRows.forEach((element, index) => {
+            if (index < first || index > last) {
+                element.remove();
+                this.renderedRows.delete(index);
+            }
+        });
+
+        for (let index = first; index <= last; index++) {
+            if (!this.renderedRows.has(index)) {
+                const element = this.createRow(index);
+                this.content.appendChild(element);
+                this.renderedRows.set(index, element);
+            }
+        }
+
+        // Keep the list reachable with Tab when the active row scrolled out of the window
+        if (last >= first && !this.renderedRows.has(this.activeIndex)) {
+            this.setActiveIndex(Math.min(last, Math.max(first, Math.ceil(scrollTop / rowHeight))));
+        }
+    }
+
+    private createRow(index: number): HTMLElement {
+        const element = this.options.renderRow(this.rows[index], index);
+        element.classList.add("virtual-row");
+        element.style.top = `${index * this.options.rowHeight}px`;
+        element.style.height = `${this.options.rowHeight}px`;
+        element.tabIndex = index === this.activeIndex ? 0 : -1;
+
+        // Only part of the rows exist in the DOM, so assistive technology needs the position
+        if (!element.hasAttribute("aria-posinset")) {
+            element.setAttribute("aria-posinset", String(index + 1));
+            element.setAttribute("aria-setsize", String(this.rows.length));
+        }
+        return element;
+    }
+
+    private clearRenderedRows() {
+        this.renderedRows.forEach(element => element.remove());
+        this.renderedRows.clear();
+    }
+
+    private updateEmptyState() {
+        const isEmpty = this.rows.length === 0 && !!this.options.emptyText;
+
+        if (isEmpty && !this.emptyElement) {
+            this.emptyElement = document.createElement("div");
+            this.emptyElement.className = "no-results";
+            this.emptyElement.textContent = this.options.emptyText;
+            this.options.container.insertBefore(this.emptyElement, this.content);
+        } else if (!isEmpty && this.emptyElement) {
+            this.emptyElement.remove();
+            this.emptyElement = undefined;
+        }
+    }
+}
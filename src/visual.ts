@@ -9,6 +9,9 @@
 
 import powerbi from "powerbi-visuals-api";
 import { FormattingSettingsService } from "powerbi-visuals-utils-formattingmodel";
+import { interactivityFilterService } from "powerbi-visuals-utils-interactivityutils";
+import { valueFormatter } from "powerbi-visuals-utils-formattingutils";
+import { IFilter } from "powerbi-models";
 import "./../style/visual.less";
 
 import VisualConstructorOptions = powerbi.extensibility.visual.VisualConstructorOptions;
@@ -17,64 +20,123 @@ import IVisual = powerbi.extensibility.visual.IVisual;
 import ISelectionManager = powerbi.extensibility.ISelectionManager;
 import ISelectionId = powerbi.visuals.ISelectionId;
 import DataView = powerbi.DataView;
-
-import { VisualFormattingSettingsModel } from "./settings";
-
-interface FilterCategory {
-    name: string;
-    displayName: string;
-    values: FilterValue[];
-    isHierarchy: boolean;
-    hierarchyLevels?: HierarchyLevel[];
-    order: number;
-    collapsed: boolean;
-}
-
-interface HierarchyLevel {
-    name: string;
-    values: FilterValue[];
-    levelIndex: number;
+import DataViewCategoryColumn = powerbi.DataViewCategoryColumn;
+import VisualDataChangeOperationKind = powerbi.VisualDataChangeOperationKind;
+import ViewMode = powerbi.ViewMode;
+import FilterAction = powerbi.FilterAction;
+import PrimitiveValue = powerbi.PrimitiveValue;
+import IValueFormatter = valueFormatter.IValueFormatter;
+import ILocalizationManager = powerbi.extensibility.ILocalizationManager;
+
+import {
+    VisualFormattingSettingsModel, readFieldSettings, relativePeriodOptions, relativeUnitOptions
+} from "./settings";
+import {
+    FilterCategory, FilterValue, HierarchyLevel, MenuLayout, RangeMode, RelativeDatePeriod, RelativeDateUnit
+} from "./dataInterfaces";
+import { buildFilters, isSameFilters, restoreFromFilters } from "./filters";
+import { VirtualList } from "./virtualList";
+import {
+    computeRange, fromInputValue, getEffectiveBounds, getRangeStep, getValueType, isInRange, isRangeActive,
+    snapToDay, toInputValue, toRangeNumber
+} from "./range";
+import { computeRelativeRange, parseAnchorDate } from "./relativeDate";
+import { sortValues } from "./sorting";
+import { bindActivation, isActivationKey, trapFocus } from "./keyboard";
+import {
+    SearchMode, SearchQuery, createSearchQuery, findMatchRanges, matchesQuery, normalizeText
+} from "./search";
+import {
+    SelectionSnapshot, captureSelection, deserializeSelection, getCategoryState, getValueKey, isSameRelativePeriod,
+    isSameSelection, restoreSelection, serializeSelection
+} from "./selectionSnapshot";
+import { FilterPreset, readPresets, toPresetChanges } from "./presets";
+import { updateAvailability } from "./cascade";
+
+type BulkAction = "selectAll" | "invert" | "selectMatches";
+
+// Selected values shown as separate chips before a section collapses into "Name: N selected"
+const maxValueChips = 3;
+
+// Container classes of the layouts; the slide-out overlay is the unstyled default
+const layoutClasses: Record<MenuLayout, string> = {
+    overlay: "",
+    docked: "layout-docked",
+    rail: "layout-rail",
+    drawerTop: "layout-drawer-top",
+    drawerBottom: "layout-drawer-bottom"
+};
+
+// Control of a section that had keyboard focus before the menu was rebuilt
+interface SectionFocus {
+    categoryName: string;
+    rowIndex?: number;
+    selector?: string;
 }
 
-interface HierarchyNode {
-    value: FilterValue;
-    level: number;
-    expanded: boolean;
-    children: HierarchyNode[];
-    parent?: HierarchyNode;
-}
-
-interface FilterValue {
-    value: string;
-    identity: ISelectionId;
-    selected: boolean;
-    indeterminate?: boolean;
-    children?: FilterValue[];
-    parentValue?: string;
+interface SummaryChip {
+    text: string;
+    remove: () => void;
 }
 
 export class Visual implements IVisual {
     private target: HTMLElement;
     private container: HTMLElement;
     private burgerButton: HTMLElement;
+    private burgerBadge: HTMLElement;
+    // Icon and label the launcher was last built with, so updates only rebuild it on change
+    private launcherContent: string = "";
     private menuPanel: HTMLElement;
     private overlay: HTMLElement;
     private closeButton: HTMLElement;
     private menuContent: HTMLElement;
+    private railStrip: HTMLElement;
+    private layout: MenuLayout = "overlay";
+    private isRailExpanded: boolean = false;
+    private summaryStrip: HTMLElement | null = null;
+    private applyBar: HTMLElement;
+    private applyButton: HTMLButtonElement;
+    private cancelButton: HTMLButtonElement;
     private isMenuOpen: boolean = false;
     private formattingSettings: VisualFormattingSettingsModel;
     private formattingSettingsService: FormattingSettingsService;
     private selectionManager: ISelectionManager;
     private host: powerbi.extensibility.visual.IVisualHost;
+    private localizationManager: ILocalizationManager;
     private filterCategories: FilterCategory[] = [];
     private expandedNodes: Map<string, Set<string>> = new Map();
+    private loadedRowCount: number = 0;
+    private isLoadingMore: boolean = false;
+    private hasMoreData: boolean = false;
+    private sectionLists: Map<string, VirtualList<FilterValue>> = new Map();
+    // Recomputes the rows of a section with its current search, e.g. when cascading changed them
+    private sectionRenderers: Map<string, () => void> = new Map();
+    private scrollPositions: Map<string, number> = new Map();
+    // Data, formatting and view the sections were last built from, see isFilterEcho
+    private renderedSignature: string = null;
+    private searchTerms: Map<string, string> = new Map();
+    // Normalized label and raw text of each value, computed on first search
+    private searchTexts: WeakMap<FilterValue, string[]> = new WeakMap();
+    // Formats the optional measure shown next to each value, null without a measure
+    private measureFormatter: IValueFormatter | null = null;
+    // Locale-aware collation for alphabetical sorting
+    private collator: Intl.Collator;
+    // Selection last sent to the host; in apply mode the model may run ahead of it
+    private committedSelection: SelectionSnapshot = new Map();
+    private hasPendingChanges: boolean = false;
+    private presets: FilterPreset[] = [];
+    // The default preset is only applied to the first data the visual receives
+    private defaultPresetChecked: boolean = false;
+    private isEditMode: boolean = false;
 
     constructor(options: VisualConstructorOptions) {
         console.log('Navigation Menu Visual constructor', options);
-        this.formattingSettingsService = new FormattingSettingsService();
         this.target = options.element;
         this.host = options.host;
         this.selectionManager = this.host.createSelectionManager();
+        this.localizationManager = this.host.createLocalizationManager();
+        this.formattingSettingsService = new FormattingSettingsService(this.localizationManager);
+        this.collator = new Intl.Collator(this.host.locale, { numeric: true, sensitivity: "base" });
 
         // Create main container
         this.container = document.createElement("div");
@@ -83,38 +145,75 @@ export class Visual implements IVisual {
         // Create burger button
         this.burgerButton = document.createElement("div");
         this.burgerButton.className = "burger-button";
-
-        const burgerIcon = document.createElement("div");
-        burgerIcon.className = "burger-icon";
-        for (let i = 0; i < 3; i++) {
-            const span = document.createElement("span");
-            burgerIcon.appendChild(span);
-        }
-        this.burgerButton.appendChild(burgerIcon);
+        this.burgerButton.tabIndex = 0;
+        this.burgerButton.setAttribute("role", "button");
+        this.burgerButton.setAttribute("aria-label", this.localize("Visual_OpenFilters"));
+        this.burgerButton.setAttribute("aria-haspopup", "dialog");
+        this.burgerButton.setAttribute("aria-expanded", "false");
+
+        this.burgerButton.appendChild(this.createLauncherIcon("burger", ""));
+
+        // Number of filtered sections, hidden while nothing is filtered
+        this.burgerBadge = document.createElement("span");
+        this.burgerBadge.className = "burger-badge";
+        this.burgerBadge.setAttribute("aria-hidden", "true");
+        this.burgerButton.appendChild(this.burgerBadge);
         this.burgerButton.addEventListener("click", () => this.toggleMenu());
+        bindActivation(this.burgerButton, () => this.toggleMenu());
 
         // Create overlay
         this.overlay = document.createElement("div");
         this.overlay.className = "menu-overlay";
+        this.overlay.setAttribute("aria-hidden", "true");
         this.overlay.addEventListener("click", () => this.closeMenu());
 
         // Create menu panel
         this.menuPanel = document.createElement("div");
         this.menuPanel.className = "menu-panel";
+        this.menuPanel.setAttribute("role", "dialog");
+        this.menuPanel.setAttribute("aria-modal", "true");
+        this.menuPanel.setAttribute("aria-label", this.localize("Visual_Filters"));
+        // Keep the closed panel out of the tab order
+        this.menuPanel.inert = true;
+        this.menuPanel.addEventListener("keydown", (event: KeyboardEvent) => {
+            if (event.key === "Escape" && this.layout === "rail" && this.isRailExpanded) {
+                event.preventDefault();
+                this.setRailExpanded(false);
+            } else if (!this.isModalLayout()) {
+                return;
+            } else if (event.key === "Escape") {
+                event.preventDefault();
+                this.closeMenu();
+            } else if (event.key === "Tab") {
+                trapFocus(event, this.menuPanel);
+            }
+        });
 
         // Create close button
         this.closeButton = document.createElement("div");
         this.closeButton.className = "close-button";
         this.closeButton.textContent = "×";
-        this.closeButton.addEventListener("click", () => this.closeMenu());
+        this.closeButton.tabIndex = 0;
+        this.closeButton.setAttribute("role", "button");
+        this.closeButton.setAttribute("aria-label", this.localize("Visual_CloseFilters"));
+        this.closeButton.addEventListener("click", () => this.onCloseButton());
+        bindActivation(this.closeButton, () => this.onCloseButton());
+
+        // One icon per section, shown instead of the content while the rail is collapsed
+        this.railStrip = document.createElement("div");
+        this.railStrip.className = "filter-rail";
 
         // Create menu content container
         this.menuContent = document.createElement("div");
         this.menuContent.className = "menu-content";
 
+        this.createApplyBar();
+
         // Assemble menu panel
         this.menuPanel.appendChild(this.closeButton);
+        this.menuPanel.appendChild(this.railStrip);
         this.menuPanel.appendChild(this.menuContent);
+        this.menuPanel.appendChild(this.applyBar);
 
         // Assemble container
         this.container.appendChild(this.burgerButton);
@@ -122,6 +221,9 @@ export class Visual implements IVisual {
         this.container.appendChild(this.menuPanel);
 
         this.target.appendChild(this.container);
+
+        // Bookmarks and other visuals can change the selection without an update
+        this.selectionManager.registerOnSelectCallback((ids: ISelectionId[]) => this.onExternalSelection(ids));
     }
 
     public update(options: VisualUpdateOptions) {
@@ -129,48 +231,333 @@ export class Visual implements IVisual {
             VisualFormattingSettingsModel,
             options.dataViews?.[0]
         );
+        this.formattingSettings.readLegacyProperties(options.dataViews?.[0]?.metadata?.objects);
+
+        this.applyFormatting();
+        this.renderLauncher();
+        this.applyLayout(options.viewport);
+        this.isEditMode = options.viewMode === ViewMode.Edit || options.viewMode === ViewMode.InFocusEdit;
 
         const dataView: DataView = options.dataViews?.[0];
 
         if (!dataView || !dataView.categorical || !dataView.categorical.categories) {
+            this.renderedSignature = null;
+            this.hasPendingChanges = false;
+            this.updateApplyBar();
             this.renderEmptyState();
             return;
         }
 
-        this.processData(dataView);
+        const signature = this.getUpdateSignature(options, dataView);
+        if (this.isFilterEcho(options, signature)) {
+            return;
+        }
+        this.renderedSignature = signature;
+
+        // Pending changes of the apply mode outlive the rebuild below
+        const pendingSelection = this.hasPendingChanges && this.isDeferredApply()
+            ? captureSelection(this.filterCategories)
+            : null;
+
+        // Appended segments only add rows; everything else rebuilds the model
+        const append = options.operationKind === VisualDataChangeOperationKind.Append && this.loadedRowCount > 0;
+
+        this.processData(dataView, append);
+        this.presets = readPresets(dataView);
+        this.restoreSelectionState(options);
+        this.updateRelativeDateRanges();
+        this.applyDefaultPreset();
+        this.enforceRequiredSelections();
+        this.committedSelection = captureSelection(this.filterCategories);
+
+        if (pendingSelection) {
+            this.applySnapshot(pendingSelection);
+        }
+        this.hasPendingChanges = !!pendingSelection
+            && !isSameSelection(captureSelection(this.filterCategories), this.committedSelection);
+
+        this.requestMoreData(dataView);
         this.renderFilters();
+        this.updateApplyBar();
+    }
+
+    /**
+     * Everything an update can change besides the JSON filters: the data with its
+     * highlights, the formatting and field settings, the view mode and the size.
+     */
+    private getUpdateSignature(options: VisualUpdateOptions, dataView: DataView): string {
+        return JSON.stringify({
+            objects: dataView.metadata?.objects,
+            columns: dataView.metadata?.columns?.map(column => [column.queryName, column.displayName, column.objects]),
+            categories: dataView.categorical.categories.map(category => category.values),
+            values: dataView.categorical.values?.map(column => [column.values, column.highlights]),
+            viewMode: options.viewMode,
+            viewport: options.viewport
+        });
+    }
+
+    /**
+     * Applying a filter makes the host send it back in an update. When nothing else
+     * changed and the menu already shows that filter, the sections are kept as they
+     * are, so keyboard focus and scroll positions stay where they were.
+     */
+    private isFilterEcho(options: VisualUpdateOptions, signature: string): boolean {
+        return this.isFilterMode()
+            && options.operationKind !== VisualDataChangeOperationKind.Append
+            && signature === this.renderedSignature
+            && !this.hasPendingChanges
+            && isSameFilters(this.filterCategories, (options.jsonFilters ?? []) as IFilter[]);
+    }
+
+    private applyFormatting() {
+        const settings = this.formattingSettings;
+        const menu = settings.menuCard;
+        const button = settings.burgerButtonCard;
+        const header = settings.sectionHeaderCard;
+        const items = settings.valueItemsCard;
+        const search = settings.searchBoxCard;
+        const typography = settings.typographyCard;
+
+        // Expose settings as CSS custom properties; the stylesheet falls back to its defaults
+        const style = this.container.style;
+        style.setProperty("--menu-width", `${Math.max(200, menu.menuWidth.value)}px`);
+        style.setProperty("--menu-background", menu.backgroundColor.value.value);
+        style.setProperty("--overlay-opacity", `${Math.min(100, Math.max(0, menu.overlayOpacity.value)) / 100}`);
+        style.setProperty("--button-color", button.buttonColor.value.value);
+        style.setProperty("--button-icon-color", button.iconColor.value.value);
+        style.setProperty("--button-size", `${button.buttonSize.value}px`);
+        style.setProperty("--button-radius", `${button.cornerRadius.value}px`);
+        style.setProperty("--header-background", header.backgroundColor.value.value);
+        style.setProperty("--header-font-color", header.fontColor.value.value);
+        style.setProperty("--header-font-size", `${header.fontSize.value}px`);
+        style.setProperty("--item-background", items.backgroundColor.value.value);
+        style.setProperty("--item-font-color", items.fontColor.value.value);
+        style.setProperty("--item-font-size", `${items.fontSize.value}px`);
+        style.setProperty("--item-selected-background", items.selectedColor.value.value);
+        style.setProperty("--accent-color", items.accentColor.value.value);
+        style.setProperty("--search-background", search.backgroundColor.value.value);
+        style.setProperty("--search-border-color", search.borderColor.value.value);
+        style.setProperty("--font-family", typography.fontFamily.value);
+        style.setProperty("--title-font-size", `${typography.titleFontSize.value}px`);
+        style.setProperty("--title-color", typography.titleColor.value.value);
+    }
+
+    /**
+     * Builds the launcher from the Burger Button card: icon, optional label, shape and
+     * the corner of the viewport it is anchored to.
+     */
+    private renderLauncher() {
+        const button = this.formattingSettings.burgerButtonCard;
+        const icon = String(button.icon.value?.value ?? "burger");
+        const customIcon = button.customIcon.value.trim();
+        const label = button.label.value.trim();
+
+        this.burgerButton.dataset.shape = String(button.shape.value?.value ?? "square");
+        this.burgerButton.dataset.anchor = String(button.anchor.value?.value ?? "topLeft");
+
+        const content = JSON.stringify([icon, customIcon, label]);
+        if (content === this.launcherContent) {
+            return;
+        }
+        this.launcherContent = content;
+
+        this.burgerButton.replaceChildren(this.createLauncherIcon(icon, customIcon));
+        if (label) {
+            const labelElement = document.createElement("span");
+            labelElement.className = "burger-label";
+            labelElement.textContent = label;
+            this.burgerButton.appendChild(labelElement);
+        }
+        this.burgerButton.classList.toggle("has-label", !!label);
+        this.burgerButton.appendChild(this.burgerBadge);
+    }
+
+    /**
+     * Custom SVG markup is shown through an image so it can't run scripts. Without
+     * custom markup or URL the burger bars are used.
+     */
+    private createLauncherIcon(icon: string, customIcon: string): HTMLElement | SVGElement {
+        if (icon === "funnel") {
+            const svgNamespace = "http://www.w3.org/2000/svg";
+            const svg = document.createElementNS(svgNamespace, "svg");
+            svg.setAttribute("class", "launcher-icon");
+            svg.setAttribute("viewBox", "0 0 24 24");
+            svg.setAttribute("aria-hidden", "true");
+
+            const path = document.createElementNS(svgNamespace, "path");
+            path.setAttribute("d", "M3 4h18l-7 8.5V19l-4 2v-8.5z");
+            path.setAttribute("fill", "currentColor");
+            svg.appendChild(path);
+            return svg;
+        }
+
+        if (icon === "custom" && customIcon) {
+            const image = document.createElement("img");
+            image.className = "launcher-icon";
+            image.alt = "";
+            image.draggable = false;
+            image.src = customIcon.startsWith("<")
+                ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(customIcon)}`
+                : customIcon;
+            return image;
+        }
+
+        const burgerIcon = document.createElement("div");
+        burgerIcon.className = "burger-icon";
+        burgerIcon.setAttribute("aria-hidden", "true");
+        for (let i = 0; i < 3; i++) {
+            const span = document.createElement("span");
+            burgerIcon.appendChild(span);
+        }
+        return burgerIcon;
+    }
+
+    /**
+     * Switches between the slide-out, docked, rail and drawer layouts. Docked and rail
+     * layouts fall back to the slide-out panel when the visual is narrower than the
+     * configured width.
+     */
+    private applyLayout(viewport: powerbi.IViewport) {
+        const menu = this.formattingSettings.menuCard;
+        const configured = String(menu.layout.value?.value ?? "overlay") as MenuLayout;
+        const collapse = (configured === "docked" || configured === "rail")
+            && viewport && viewport.width < menu.collapseWidth.value;
+        const layout: MenuLayout = collapse ? "overlay" : configured;
+
+        const position = String(menu.menuPosition.value?.value ?? "left");
+        const isDrawer = layout === "drawerTop" || layout === "drawerBottom";
+        this.menuPanel.classList.toggle("position-right", position === "right" && !isDrawer);
+
+        if (layout === this.layout) {
+            this.updateCloseButton();
+            return;
+        }
+
+        if (layoutClasses[this.layout]) {
+            this.container.classList.remove(layoutClasses[this.layout]);
+        }
+        if (layoutClasses[layout]) {
+            this.container.classList.add(layoutClasses[layout]);
+        }
+        this.layout = layout;
+
+        // Every layout starts closed (or collapsed)
+        this.isMenuOpen = false;
+        this.isRailExpanded = false;
+        this.menuPanel.classList.remove("open", "expanded");
+        this.overlay.classList.remove("visible");
+        this.burgerButton.classList.remove("hidden");
+        this.burgerButton.setAttribute("aria-expanded", "false");
+
+        // Inline layouts are part of the page rather than a dialog
+        const isModal = this.isModalLayout();
+        this.menuPanel.inert = isModal;
+        this.menuPanel.setAttribute("role", isModal ? "dialog" : "region");
+        if (isModal) {
+            this.menuPanel.setAttribute("aria-modal", "true");
+        } else {
+            this.menuPanel.removeAttribute("aria-modal");
+        }
+        this.updateCloseButton();
+    }
+
+    private isModalLayout(): boolean {
+        return this.layout !== "docked" && this.layout !== "rail";
+    }
+
+    private onCloseButton() {
+        if (this.layout === "rail") {
+            this.setRailExpanded(!this.isRailExpanded);
+        } else {
+            this.closeMenu();
+        }
+    }
+
+    /**
+     * The close button collapses and expands the rail.
+     */
+    private updateCloseButton() {
+        if (this.layout === "rail") {
+            const toStart = this.menuPanel.classList.contains("position-right") ? "»" : "«";
+            const toEnd = toStart === "«" ? "»" : "«";
+            this.closeButton.textContent = this.isRailExpanded ? toStart : toEnd;
+            this.closeButton.setAttribute("aria-label", this.localize(this.isRailExpanded ? "Visual_CollapseFilters" : "Visual_ExpandFilters"));
+            this.closeButton.setAttribute("aria-expanded", String(this.isRailExpanded));
+        } else {
+            this.closeButton.textContent = "×";
+            this.closeButton.setAttribute("aria-label", this.localize("Visual_CloseFilters"));
+            this.closeButton.removeAttribute("aria-expanded");
+        }
+    }
+
+    /**
+     * Expands or collapses the rail. Expanding from a section icon scrolls to that section.
+     */
+    private setRailExpanded(expanded: boolean, category?: FilterCategory) {
+        this.isRailExpanded = expanded;
+        this.menuPanel.classList.toggle("expanded", expanded);
+        this.updateCloseButton();
+
+        const index = category ? this.getVisibleCategories().indexOf(category) : -1;
+        const section = index >= 0
+            ? this.menuContent.querySelectorAll<HTMLElement>(":scope > .filter-section")[index]
+            : undefined;
+
+        if (section) {
+            section.scrollIntoView({ block: "start" });
+            section.querySelector<HTMLElement>(".collapsible-header")?.focus();
+        } else {
+            this.closeButton.focus();
+        }
+    }
+
+    private renderRail() {
+        this.railStrip.replaceChildren();
+        this.railStrip.setAttribute("aria-label", this.getPanelTitle());
+
+        this.getVisibleCategories().forEach(category => {
+            const count = this.getActiveCount(category);
+
+            const item = document.createElement("button");
+            item.className = "rail-item";
+            item.title = category.displayName;
+            item.setAttribute("aria-label", count > 0
+                ? this.localize("Visual_RailItemActive", category.displayName, count)
+                : category.displayName);
+
+            const icon = document.createElement("span");
+            icon.className = "rail-icon";
+            icon.textContent = category.displayName.trim().charAt(0).toUpperCase() || "•";
+            icon.setAttribute("aria-hidden", "true");
+            item.appendChild(icon);
+
+            if (count > 0) {
+                const badge = document.createElement("span");
+                badge.className = "rail-count";
+                badge.textContent = String(count);
+                badge.setAttribute("aria-hidden", "true");
+                item.appendChild(badge);
+            }
+
+            item.addEventListener("click", () => this.setRailExpanded(true, category));
+            this.railStrip.appendChild(item);
+        });
     }
 
-    private processData(dataView: DataView) {
+    private processData(dataView: DataView, append: boolean) {
         // Save current collapsed states
         const collapsedStates = new Map<string, boolean>();
         this.filterCategories.forEach(cat => {
             collapsedStates.set(cat.name, cat.collapsed);
         });
 
-        this.filterCategories = [];
+        if (!append) {
+            this.filterCategories = [];
+        }
 
         const categories = dataView.categorical.categories;
         if (!categories) return;
 
-        console.log("=== HIERARCHY DEBUG ===");
-        console.log("Total categories:", categories.length);
-
-        // Log all category properties to understand the structure
-        categories.forEach((cat, idx) => {
-            const catAny = cat as any;
-            console.log(`\nCategory ${idx}:`, {
-                displayName: cat.source.displayName,
-                queryName: cat.source.queryName,
-                groupName: (cat.source as any).groupName,
-                roles: cat.source.roles,
-                type: cat.source.type,
-                expr: (cat.source as any).expr,
-                identity: catAny.identity,
-                identityExprs: catAny.identityExprs
-            });
-        });
-
         // Track order and grouping
         const categoryOrder: Array<{type: 'hierarchy' | 'single', name: string, index: number, categories?: typeof categories, category?: any}> = [];
         const processedIndices = new Set<number>();
@@ -202,186 +589,369 @@ export class Visual implements IVisual {
             if (relatedCategories.length > 1) {
                 const hierarchyName = cat.source.displayName?.split('.')[0] || baseName;
                 categoryOrder.push({type: 'hierarchy', name: hierarchyName, index: idx, categories: relatedCategories});
-                console.log(`Found hierarchy "${hierarchyName}" with ${relatedCategories.length} levels`);
             } else {
                 // Single column
                 categoryOrder.push({type: 'single', name: cat.source.displayName, index: idx, category: cat});
-                console.log(`Single column: ${cat.source.displayName}`);
             }
         });
 
-        console.log("\nTotal categories:", categoryOrder.length);
-        console.log("=== END DEBUG ===\n");
+        // Rows before this index are already part of the model when a segment is appended
+        const startRow = append ? this.loadedRowCount : 0;
+
+        // Optional measure, aggregated per row by Power BI and summed up per value here
+        const measureColumn = dataView.categorical.values?.find(column => column.source.roles?.measure);
+        const measureValues = measureColumn?.values ?? null;
+        // Set while another visual highlights data; only available with a measure
+        const highlights = measureColumn?.highlights ?? null;
+        this.measureFormatter = measureColumn
+            ? valueFormatter.create({ format: measureColumn.source.format, cultureSelector: this.host.locale })
+            : null;
 
         // Process in order
         categoryOrder.forEach((item, orderIndex) => {
             if (item.type === 'hierarchy') {
-                // Build parent-child relationships by analyzing data rows
-                const valuesByLevel: Map<string, FilterValue>[] = [];
-
-                // First pass: Create all unique values for each level
-                item.categories.forEach((category, levelIdx) => {
-                    const uniqueValuesMap = new Map<string, FilterValue>();
-
-                    category.values.forEach((value, index) => {
-                        const stringValue = value != null ? String(value) : "(Blank)";
-
-                        if (!uniqueValuesMap.has(stringValue)) {
-                            const identity = this.host.createSelectionIdBuilder()
-                                .withCategory(category, index)
-                                .createSelectionId();
-
-                            uniqueValuesMap.set(stringValue, {
-                                value: stringValue,
-                                identity: identity,
-                                selected: false,
-                                children: []
-                            });
-                        }
-                    });
+                let filterCategory = this.filterCategories.find(cat => cat.isHierarchy && cat.name === item.name);
+                let firstRow = startRow;
+
+                if (!filterCategory) {
+                    firstRow = 0;
+                    // Hierarchy field settings are bound to the top level column
+                    const settings = readFieldSettings(item.categories[0].source.objects);
+                    filterCategory = {
+                        name: item.name,
+                        displayName: settings.displayName.trim() || item.name,
+                        values: [],
+                        isHierarchy: true,
+                        // Preserve the level order from Power BI
+                        hierarchyLevels: item.categories.map((category, levelIdx) => ({
+                            name: category.source.displayName || this.localize("Visual_Level"),
+                            values: [],
+                            levelIndex: levelIdx,
+                            target: interactivityFilterService.extractFilterColumnTarget(category)
+                        })),
+                        order: orderIndex,
+                        collapsed: collapsedStates.get(item.name) ?? settings.defaultCollapsed,
+                        queryName: item.categories[0].source.queryName,
+                        settings,
+                        valueType: getValueType(item.categories[0].source.type),
+                        rowValues: []
+                    };
+                    this.filterCategories.push(filterCategory);
+                }
 
-                    valuesByLevel[levelIdx] = uniqueValuesMap;
-                });
+                this.appendHierarchyRows(filterCategory, item.categories, measureValues, highlights, firstRow);
+            } else {
+                // Single column
+                const category = item.category;
+                const categoryName = category.source.displayName || this.localize("Visual_FilterNumber", orderIndex + 1);
+                let filterCategory = this.filterCategories.find(cat => !cat.isHierarchy && cat.name === categoryName);
+                let firstRow = startRow;
+
+                if (!filterCategory) {
+                    firstRow = 0;
+                    const settings = readFieldSettings(category.source.objects);
+                    filterCategory = {
+                        name: categoryName,
+                        displayName: settings.displayName.trim() || categoryName,
+                        values: [],
+                        isHierarchy: false,
+                        order: orderIndex,
+                        collapsed: collapsedStates.get(categoryName) ?? settings.defaultCollapsed,
+                        target: interactivityFilterService.extractFilterColumnTarget(category),
+                        formatValue: this.createLabelFormatter(category),
+                        queryName: category.source.queryName,
+                        settings,
+                        valueType: getValueType(category.source.type),
+                        rowValues: []
+                    };
+                    this.filterCategories.push(filterCategory);
+                }
 
-                // Second pass: Build parent-child relationships based on data rows
-                if (item.categories.length > 0) {
-                    const rowCount = item.categories[0].values.length;
-
-                    console.log(`Building relationships for ${item.name}, ${rowCount} rows`);
-
-                    for (let rowIdx = 0; rowIdx < rowCount; rowIdx++) {
-                        for (let levelIdx = 0; levelIdx < item.categories.length - 1; levelIdx++) {
-                            const parentValue = item.categories[levelIdx].values[rowIdx];
-                            const childValue = item.categories[levelIdx + 1].values[rowIdx];
-
-                            const parentStr = parentValue != null ? String(parentValue) : "(Blank)";
-                            const childStr = childValue != null ? String(childValue) : "(Blank)";
-
-                            const parent = valuesByLevel[levelIdx].get(parentStr);
-                            const child = valuesByLevel[levelIdx + 1].get(childStr);
-
-                            if (parent && child) {
-                                // Add child to parent's children if not already present
-                                if (!parent.children.some(c => c.value === child.value)) {
-                                    parent.children.push(child);
-                                    child.parentValue = parent.value;
-                                    console.log(`Linked: ${parent.value} → ${child.value}`);
-                                }
-                            } else {
-                                console.warn(`Could not link: ${parentStr} → ${childStr}`, {parent: !!parent, child: !!child});
-                            }
-                        }
-                    }
+                this.appendStandardRows(filterCategory, category, measureValues, highlights, firstRow);
+
+                const sectionType = filterCategory.settings.sectionType;
+                if ((sectionType === "range" && filterCategory.valueType !== "text")
+                    || (sectionType === "relativeDate" && filterCategory.valueType === "dateTime")) {
+                    filterCategory.range = computeRange(filterCategory.values, filterCategory.range);
                 }
+            }
+        });
 
-                // Third pass: Create hierarchy levels AFTER relationships are built, preserving original order
-                const hierarchyLevels: HierarchyLevel[] = [];
-                item.categories.forEach((category, levelIdx) => {
-                    const levelName = category.source.displayName || "Level";
-                    // Preserve the order from Power BI (important for time dimensions)
-                    const allValues = Array.from(valuesByLevel[levelIdx].values());
-
-                    // Do not sort children - preserve original order from Power BI
-                    // This ensures months, days, etc. appear in chronological order
-                    // allValues.forEach(val => {
-                    //     if (val.children && val.children.length > 0) {
-                    //         val.children.sort((a, b) => a.value.localeCompare(b.value));
-                    //     }
-                    // });
-
-                    hierarchyLevels.push({
-                        name: levelName,
-                        values: allValues,
-                        levelIndex: levelIdx
-                    });
-                });
+        this.loadedRowCount = categories[0]?.values.length ?? 0;
+    }
 
-                // Log final tree structure
-                console.log("Final hierarchy structure:");
-                hierarchyLevels.forEach((level, idx) => {
-                    console.log(`Level ${idx} (${level.name}):`, level.values.map(v => ({
-                        value: v.value,
-                        childCount: v.children?.length || 0,
-                        children: v.children?.map(c => c.value)
-                    })));
-                });
+    /**
+     * Adds the unique values found in rows from startRow on to a standard category,
+     * keeping the original order from Power BI (important for time dimensions).
+     */
+    private appendStandardRows(
+        filterCategory: FilterCategory,
+        category: DataViewCategoryColumn,
+        measureValues: PrimitiveValue[] | null,
+        highlights: PrimitiveValue[] | null,
+        startRow: number
+    ) {
+        // Values are told apart by their raw value; different values may share a formatted label
+        const knownValues = new Map<string, FilterValue>(filterCategory.values.map(val => [getValueKey(val.rawValue), val]));
+
+        for (let index = startRow; index < category.values.length; index++) {
+            const value = category.values[index];
+            const valueKey = getValueKey(value);
+            let filterValue = knownValues.get(valueKey);
+
+            if (!filterValue) {
+                const identity = this.host.createSelectionIdBuilder()
+                    .withCategory(category, index)
+                    .createSelectionId();
+
+                filterValue = {
+                    value: filterCategory.formatValue(value),
+                    rawValue: value,
+                    identity: identity,
+                    selected: false
+                };
+                knownValues.set(valueKey, filterValue);
+                filterCategory.values.push(filterValue);
+            }
+            filterCategory.rowValues[index] = filterValue;
 
-                // DIAGNOSTIC: Add debug info
-                console.log("=== CHECKING OBST CHILDREN ===");
-                const obstLevel = hierarchyLevels.find(l => l.values.some(v => v.value === "Obst"));
-                if (obstLevel) {
-                    const obst = obstLevel.values.find(v => v.value === "Obst");
-                    console.log("DIAGNOSTIC - Obst found at level:", hierarchyLevels.indexOf(obstLevel));
-                    console.log("DIAGNOSTIC - Obst children count:", obst?.children?.length || 0);
-                    console.log("DIAGNOSTIC - Obst children:", obst?.children?.map(c => ({
-                        value: c.value,
-                        hasChildren: (c.children?.length || 0) > 0,
-                        childCount: c.children?.length || 0
-                    })));
-                } else {
-                    console.warn("DIAGNOSTIC - Obst not found!");
-                }
-                console.log("=== END OBST CHECK ===");
-
-                this.filterCategories.push({
-                    name: item.name,
-                    displayName: item.name,
-                    values: [],
-                    isHierarchy: true,
-                    hierarchyLevels: hierarchyLevels,
-                    order: orderIndex,
-                    collapsed: collapsedStates.get(item.name) ?? false
-                });
-            } else {
-                // Single column
-                const category = item.category;
-                const categoryName = category.source.displayName || `Filter ${orderIndex + 1}`;
-                const values: FilterValue[] = [];
+            if (measureValues) {
+                this.addMeasure(filterValue, measureValues[index]);
+            }
+            if (highlights) {
+                this.addHighlight(filterValue, highlights[index]);
+            }
+        }
+    }
+
+    /**
+     * Creates the label function of a column: the column's format string in the host
+     * locale, translated booleans and the blank label for empty values. Date columns
+     * without a format string use the short date pattern.
+     */
+    private createLabelFormatter(column: DataViewCategoryColumn): (value: PrimitiveValue) => string {
+        const source = column.source;
+        const format = source.format || (source.type?.dateTime ? "d" : undefined);
+        const formatter = valueFormatter.create({ format, cultureSelector: this.host.locale });
+        const blankLabel = this.getBlankLabel();
+
+        return (value: PrimitiveValue) => {
+            if (value == null) {
+                return blankLabel;
+            }
+            if (typeof value === "boolean") {
+                return this.localize(value ? "Visual_True" : "Visual_False");
+            }
+            return formatter.format(value);
+        };
+    }
 
-                // Track unique values with their first occurrence index
-                const uniqueValuesMap = new Map<string, number>();
+    /**
+     * Rows are aggregated over all fields in the Filters well, so the total of a
+     * value is the sum of its rows. Blanks don't count.
+     */
+    private addMeasure(filterValue: FilterValue, measure: PrimitiveValue) {
+        if (typeof measure === "number" && !isNaN(measure)) {
+            filterValue.measure = (filterValue.measure ?? 0) + measure;
+        }
+    }
 
-                category.values.forEach((value, index) => {
-                    const stringValue = value != null ? String(value) : "(Blank)";
+    /**
+     * A value counts as highlighted when any of its rows has a highlight value.
+     */
+    private addHighlight(filterValue: FilterValue, highlight: PrimitiveValue) {
+        filterValue.highlighted = !!filterValue.highlighted || highlight != null;
+    }
 
-                    if (!uniqueValuesMap.has(stringValue)) {
-                        uniqueValuesMap.set(stringValue, index);
+    /**
+     * Builds the hierarchy tree by walking every data row from startRow on, from
+     * the top level down. A node is identified by its full ancestor path, so equal
+     * member names under different parents (e.g. January of 2023 and of 2024) stay separate.
+     */
+    private appendHierarchyRows(
+        filterCategory: FilterCategory,
+        columns: DataViewCategoryColumn[],
+        measureValues: PrimitiveValue[] | null,
+        highlights: PrimitiveValue[] | null,
+        startRow: number
+    ) {
+        const levels = filterCategory.hierarchyLevels;
+        const nodesByKey = new Map<string, FilterValue>();
+        levels.forEach(level => level.values.forEach(node => nodesByKey.set(node.key, node)));
+
+        const rowCount = columns.length > 0 ? columns[0].values.length : 0;
+        const labelFormatters = columns.map(column => this.createLabelFormatter(column));
+
+        for (let rowIdx = startRow; rowIdx < rowCount; rowIdx++) {
+            const path: string[] = [];
+            let parent: FilterValue = null;
+
+            columns.forEach((category, levelIdx) => {
+                const value = category.values[rowIdx];
+                path.push(getValueKey(value));
+
+                const key = JSON.stringify(path);
+                let node = nodesByKey.get(key);
+
+                if (!node) {
+                    // Combine the node's column with all ancestor columns so the
+                    // identity addresses exactly this branch
+                    const identityBuilder = this.host.createSelectionIdBuilder();
+                    for (let ancestorIdx = 0; ancestorIdx <= levelIdx; ancestorIdx++) {
+                        identityBuilder.withCategory(columns[ancestorIdx], rowIdx);
                     }
-                });
-
-                // Create filter values from unique entries
-                uniqueValuesMap.forEach((firstIndex, stringValue) => {
-                    const identity = this.host.createSelectionIdBuilder()
-                        .withCategory(category, firstIndex)
-                        .createSelectionId();
+                    const identity = identityBuilder.createSelectionId();
 
-                    values.push({
-                        value: stringValue,
+                    node = {
+                        value: labelFormatters[levelIdx](value),
+                        rawValue: value,
                         identity: identity,
-                        selected: false
-                    });
-                });
+                        selected: false,
+                        key: key,
+                        level: levelIdx,
+                        children: [],
+                        parent: parent
+                    };
+
+                    nodesByKey.set(key, node);
+                    levels[levelIdx].values.push(node);
+                    parent?.children.push(node);
+                }
 
-                this.filterCategories.push({
-                    name: categoryName,
-                    displayName: categoryName,
-                    // Preserve original order from Power BI (important for time dimensions)
-                    values: values,
-                    isHierarchy: false,
-                    order: orderIndex,
-                    collapsed: collapsedStates.get(categoryName) ?? false
-                });
+                // Every node on the path gets the row's measure, which rolls totals up the tree
+                if (measureValues) {
+                    this.addMeasure(node, measureValues[rowIdx]);
+                }
+                if (highlights) {
+                    this.addHighlight(node, highlights[rowIdx]);
+                }
+
+                parent = node;
+            });
+
+            // The leaf of the row's path links the hierarchy to the other sections
+            filterCategory.rowValues[rowIdx] = parent;
+        }
+    }
+
+    /**
+     * Requests the next data segment while Power BI reports that more rows exist.
+     * Segments are aggregated by the host; processData only ingests the new rows.
+     */
+    private requestMoreData(dataView: DataView) {
+        if (dataView.metadata?.segment) {
+            this.isLoadingMore = this.host.fetchMoreData(true);
+            this.hasMoreData = true;
+        } else {
+            this.isLoadingMore = false;
+            this.hasMoreData = false;
+        }
+    }
+
+    /**
+     * Rehydrates the checked state after processData rebuilt the model: from the
+     * persisted JSON filters in filter mode, from the selection manager otherwise.
+     */
+    private restoreSelectionState(options: VisualUpdateOptions) {
+        if (this.isFilterMode()) {
+            restoreFromFilters(this.filterCategories, (options.jsonFilters ?? []) as IFilter[]);
+            this.filterCategories.filter(cat => cat.range).forEach(cat => this.syncRangeSelection(cat));
+        } else {
+            const selectionIds = this.selectionManager.getSelectionIds() as ISelectionId[];
+            if (selectionIds.length > 0) {
+                this.markSelectedIds(selectionIds);
             }
+        }
+
+        this.updateHierarchyStates();
+    }
+
+    private markSelectedIds(selectionIds: ISelectionId[]) {
+        const isSelected = (value: FilterValue) => selectionIds.some(id => id.equals(value.identity));
+        this.filterCategories.forEach(cat => {
+            cat.values.forEach(val => val.selected = isSelected(val));
+            cat.hierarchyLevels?.forEach(level => {
+                level.values.forEach(val => val.selected = isSelected(val));
+            });
         });
+        this.filterCategories.filter(cat => cat.range).forEach(cat => this.restoreRangeFromValues(cat));
+    }
+
+    private updateHierarchyStates() {
+        this.filterCategories
+            .filter(cat => cat.isHierarchy && cat.hierarchyLevels.length > 0)
+            .forEach(cat => cat.hierarchyLevels[0].values.forEach(val => this.updateSelectionFromChildren(val)));
+    }
+
+    /**
+     * Selections changed outside the menu, e.g. by a bookmark, replace the checked
+     * state in cross-highlight mode. Filter mode receives them as JSON filters on update.
+     */
+    private onExternalSelection(selectionIds: ISelectionId[]) {
+        if (this.isFilterMode() || this.filterCategories.length === 0) {
+            return;
+        }
+
+        this.markSelectedIds(selectionIds);
+        this.updateHierarchyStates();
+        this.committedSelection = captureSelection(this.filterCategories);
+        this.hasPendingChanges = false;
+        this.updateApplyBar();
+        this.renderFilters();
+    }
+
+    /**
+     * Relative date sections are recomputed against today on every update, so a
+     * "last 7 days" filter saved yesterday moves with the calendar. The period is
+     * re-applied when the persisted bounds are outdated, or in cross-highlight mode
+     * when the host's selection doesn't hold the values of the period.
+     */
+    private updateRelativeDateRanges() {
+        const selectionIds = this.isFilterMode() ? [] : this.selectionManager.getSelectionIds() as ISelectionId[];
+        const isSelected = (value: FilterValue) => selectionIds.some(id => id.equals(value.identity));
+        let changed = false;
+
+        this.filterCategories
+            .filter(cat => cat.range && cat.settings.sectionType === "relativeDate")
+            .forEach(category => {
+                const bounds = computeRelativeRange(category.settings);
+                const range = category.range;
+                if (!bounds) {
+                    // "Not filtered" drops the range restored from the persisted filter or selection
+                    if (isRangeActive(range)) {
+                        range.from = undefined;
+                        range.to = undefined;
+                        changed = true;
+                    }
+                } else if (range.mode !== "between" || range.from !== bounds.from || range.to !== bounds.to) {
+                    range.mode = "between";
+                    range.from = bounds.from;
+                    range.to = bounds.to;
+                    changed = true;
+                }
+                this.syncRangeSelection(category);
+
+                if (!this.isFilterMode() && category.values.some(val => val.selected !== isSelected(val))) {
+                    changed = true;
+                }
+            });
+
+        if (changed) {
+            this.applySelection();
+        }
     }
 
     private renderEmptyState() {
+        this.summaryStrip = null;
+        this.updateBadge(0);
+        this.railStrip.replaceChildren();
+
         while (this.menuContent.firstChild) {
             this.menuContent.removeChild(this.menuContent.firstChild);
         }
 
         const title = document.createElement("h3");
-        title.textContent = "Filter Menu";
+        title.textContent = this.localize("Visual_FilterMenu");
         this.menuContent.appendChild(title);
 
         const emptyMessage = document.createElement("div");
@@ -392,11 +962,11 @@ export class Visual implements IVisual {
         icon.textContent = "⊕";
 
         const message = document.createElement("p");
-        message.textContent = "Add fields to create filters";
+        message.textContent = this.localize("Visual_EmptyMessage");
 
         const instruction = document.createElement("p");
         instruction.className = "empty-instruction";
-        instruction.textContent = "Drag and drop columns into the 'Filters' field well";
+        instruction.textContent = this.localize("Visual_EmptyInstruction");
 
         emptyMessage.appendChild(icon);
         emptyMessage.appendChild(message);
@@ -405,150 +975,380 @@ export class Visual implements IVisual {
     }
 
     private renderFilters() {
+        // Keep scroll positions and keyboard focus across the rebuild
+        const panelScrollTop = this.menuPanel.scrollTop;
+        const focus = this.getSectionFocus();
+        this.sectionLists.forEach((list, name) => this.scrollPositions.set(name, list.scrollTop));
+        this.sectionLists.clear();
+        this.sectionRenderers.clear();
+        updateAvailability(this.filterCategories, this.isCascading());
+
         // Clear existing content
         while (this.menuContent.firstChild) {
             this.menuContent.removeChild(this.menuContent.firstChild);
         }
 
         const title = document.createElement("h3");
-        title.textContent = "Filters";
+        title.textContent = this.getPanelTitle();
         this.menuContent.appendChild(title);
+        this.menuPanel.setAttribute("aria-label", title.textContent);
 
         if (this.filterCategories.length === 0) {
             this.renderEmptyState();
             return;
         }
 
+        const presetSection = this.createPresetSection();
+        if (presetSection) {
+            this.menuContent.appendChild(presetSection);
+        }
+
+        this.summaryStrip = document.createElement("div");
+        this.summaryStrip.className = "filter-summary";
+        this.summaryStrip.setAttribute("aria-label", this.localize("Visual_ActiveFilters"));
+        this.menuContent.appendChild(this.summaryStrip);
+        this.updateSummary();
+
         // Render each filter category
-        this.filterCategories.forEach(category => {
+        this.getVisibleCategories().forEach(category => {
             const categorySection = this.createFilterSection(category);
             this.menuContent.appendChild(categorySection);
+            this.restoreListScroll(category);
         });
+
+        this.menuPanel.scrollTop = panelScrollTop;
+        this.restoreSectionFocus(focus);
+    }
+
+    /**
+     * Where keyboard focus is inside a section: a row of its list, or another
+     * control identified by its class, e.g. the header toggle or the search box.
+     */
+    private getSectionFocus(): SectionFocus | null {
+        const active = document.activeElement as HTMLElement;
+        if (!active || !this.menuContent.contains(active)) {
+            return null;
+        }
+
+        for (const [categoryName, list] of this.sectionLists) {
+            const rowIndex = list.getFocusedIndex();
+            if (rowIndex !== undefined) {
+                return { categoryName, rowIndex };
+            }
+        }
+
+        const sections = Array.from(this.menuContent.querySelectorAll<HTMLElement>(":scope > .filter-section"));
+        const index = sections.findIndex(section => section.contains(active));
+        const category = this.getVisibleCategories()[index];
+        return category && active.classList.length > 0
+            ? { categoryName: category.name, selector: `.${active.classList[0]}` }
+            : null;
+    }
+
+    private restoreSectionFocus(focus: SectionFocus | null) {
+        if (!focus) {
+            return;
+        }
+
+        if (focus.rowIndex !== undefined) {
+            this.sectionLists.get(focus.categoryName)?.focusRow(focus.rowIndex);
+            return;
+        }
+
+        const index = this.getVisibleCategories().findIndex(category => category.name === focus.categoryName);
+        const section = this.menuContent.querySelectorAll<HTMLElement>(":scope > .filter-section")[index];
+        section?.querySelector<HTMLElement>(focus.selector)?.focus();
+    }
+
+    /**
+     * Rebuilds a single section in place, e.g. after it was collapsed or expanded.
+     */
+    private replaceSection(section: HTMLElement, category: FilterCategory): HTMLElement {
+        const list = this.sectionLists.get(category.name);
+        if (list) {
+            this.scrollPositions.set(category.name, list.scrollTop);
+            this.sectionLists.delete(category.name);
+            this.sectionRenderers.delete(category.name);
+        }
+
+        const replacement = this.createFilterSection(category);
+        section.replaceWith(replacement);
+        this.restoreListScroll(category);
+        return replacement;
+    }
+
+    private restoreListScroll(category: FilterCategory) {
+        const list = this.sectionLists.get(category.name);
+        if (list) {
+            list.scrollTop = this.scrollPositions.get(category.name) ?? 0;
+        }
+    }
+
+    /**
+     * Re-renders the visible rows of every section after a selection change,
+     * instead of rebuilding the whole menu.
+     */
+    private refreshSections() {
+        this.sectionLists.forEach(list => list.refresh());
+    }
+
+    /**
+     * With cascading filters a change in one section can hide or reorder the values
+     * of the others, so their rows are recomputed instead of only re-rendered.
+     */
+    private updateCascade() {
+        if (!this.isCascading()) {
+            return;
+        }
+        updateAvailability(this.filterCategories, true);
+        this.sectionRenderers.forEach(render => render());
+    }
+
+    private isCascading(): boolean {
+        return !!this.formattingSettings?.behaviorCard.cascade.value;
+    }
+
+    private applyMaxHeight(container: HTMLElement, category: FilterCategory) {
+        if (category.settings.maxHeight > 0) {
+            container.style.maxHeight = `${category.settings.maxHeight}px`;
+        }
+    }
+
+    /**
+     * Sections shown in the menu. Hidden fields still filter, but get no section,
+     * chip or rail icon and are left alone by "Reset all".
+     */
+    private getVisibleCategories(): FilterCategory[] {
+        return this.filterCategories.filter(category => !category.settings.hidden);
+    }
+
+    /**
+     * Fixed row height for the virtual lists, derived from the value text size.
+     */
+    private getRowHeight(verticalPadding: number): number {
+        const fontSize = this.formattingSettings.valueItemsCard.fontSize.value;
+        return Math.max(16, Math.ceil(fontSize * 1.25)) + verticalPadding;
     }
 
     private createFilterSection(category: FilterCategory): HTMLElement {
         if (category.isHierarchy) {
             return this.createHierarchySection(category);
+        } else if (category.range && category.settings.sectionType === "relativeDate") {
+            return this.createRelativeDateSection(category);
+        } else if (category.range) {
+            return this.createRangeSection(category);
         } else {
             return this.createStandardSection(category);
         }
     }
 
-    private createHierarchySection(category: FilterCategory): HTMLElement {
-        const section = document.createElement("div");
-        section.className = "filter-section hierarchy-section";
-
-        // Initialize expanded nodes set
-        if (!this.expandedNodes.has(category.name)) {
-            this.expandedNodes.set(category.name, new Set<string>());
-        }
-
-        // Category header
+    private createSectionHeader(section: HTMLElement, category: FilterCategory, onClear: () => void): HTMLElement {
+        // Category header: the collapse toggle and the Clear button sit side by side
         const header = document.createElement("div");
-        header.className = "filter-header collapsible-header";
+        header.className = "filter-header";
+
+        const toggle = document.createElement("button");
+        toggle.className = "collapsible-header";
+        toggle.setAttribute("aria-expanded", String(!category.collapsed));
 
         // Collapse/expand icon
         const collapseIcon = document.createElement("span");
         collapseIcon.className = "collapse-icon";
         collapseIcon.textContent = category.collapsed ? "▶" : "▼";
+        collapseIcon.setAttribute("aria-hidden", "true");
 
-        const label = document.createElement("div");
+        const label = document.createElement("span");
         label.className = "filter-label";
         label.textContent = category.displayName;
 
+        toggle.appendChild(collapseIcon);
+        toggle.appendChild(label);
+
         const clearBtn = document.createElement("button");
         clearBtn.className = "clear-button";
-        clearBtn.textContent = "Clear";
-        clearBtn.addEventListener("click", (e) => {
-            e.stopPropagation();
-            this.clearHierarchySelection(category);
-        });
+        clearBtn.textContent = this.localize("Visual_Clear");
+        clearBtn.setAttribute("aria-label", this.localize("Visual_ClearCategory", category.displayName));
+        clearBtn.addEventListener("click", () => onClear());
 
-        header.appendChild(collapseIcon);
-        header.appendChild(label);
+        header.appendChild(toggle);
         header.appendChild(clearBtn);
 
-        // Toggle collapse on header click
-        header.addEventListener("click", () => {
+        // The section is rebuilt on toggle, so focus moves to the new toggle
+        toggle.addEventListener("click", () => {
             category.collapsed = !category.collapsed;
-            this.renderFilters();
+            const replacement = this.replaceSection(section, category);
+            replacement.querySelector<HTMLElement>(".collapsible-header")?.focus();
         });
 
-        section.appendChild(header);
+        return header;
+    }
+
+    private createHierarchySection(category: FilterCategory): HTMLElement {
+        const section = document.createElement("div");
+        section.className = "filter-section hierarchy-section";
+
+        // Initialize expanded nodes set
+        if (!this.expandedNodes.has(category.name)) {
+            this.expandedNodes.set(category.name, new Set<string>());
+        }
+
+        section.appendChild(this.createSectionHeader(section, category, () => this.clearHierarchySelection(category)));
 
         // Return early if collapsed
         if (category.collapsed) {
             return section;
         }
 
+        const showSearch = this.formattingSettings.searchBoxCard.show.value && category.settings.showSearch;
+
         // Search box for all levels
         const searchBox = document.createElement("input");
         searchBox.type = "text";
         searchBox.className = "filter-search";
-        searchBox.placeholder = `Search...`;
+        searchBox.placeholder = this.localize("Visual_Search");
+        searchBox.setAttribute("aria-label", this.localize("Visual_SearchLabel", category.displayName));
+        searchBox.value = showSearch ? this.searchTerms.get(category.name) ?? "" : "";
 
-        // Hierarchy tree container
+        // Hierarchy tree container, only the visible rows of the flattened tree get DOM nodes
         const treeContainer = document.createElement("div");
         treeContainer.className = "filter-values hierarchy-tree";
+        this.applyMaxHeight(treeContainer, category);
+        treeContainer.setAttribute("role", "tree");
+        treeContainer.setAttribute("aria-label", category.displayName);
+
+        let rows: FilterValue[] = [];
+        let query: SearchQuery | null = null;
+        const positions = new Map<FilterValue, [number, number]>();
+
+        const renderTree = () => {
+            query = this.createQuery(searchBox.value);
+            positions.clear();
+            rows = this.flattenHierarchy(category, query, positions);
+            list.setRows(rows);
+            this.updateSectionActions(actions, query);
+        };
+        this.sectionRenderers.set(category.name, renderTree);
 
-        const renderTree = (searchTerm: string = "") => {
-            while (treeContainer.firstChild) {
-                treeContainer.removeChild(treeContainer.firstChild);
+        const toggleExpanded = (value: FilterValue) => {
+            const expanded = this.expandedNodes.get(category.name);
+            if (expanded.has(value.key)) {
+                expanded.delete(value.key);
+            } else {
+                expanded.add(value.key);
             }
+            renderTree();
+        };
 
-            // Auto-expand nodes when searching
-            if (searchTerm && category.hierarchyLevels.length > 0) {
-                const expandedSet = this.expandedNodes.get(category.name);
-                category.hierarchyLevels.forEach((level, idx) => {
-                    level.values.forEach(value => {
-                        if (this.matchesSearchRecursive(value, searchTerm)) {
-                            const nodeKey = `${category.name}_${idx}_${value.value}`;
-                            expandedSet.add(nodeKey);
-                        }
-                    });
-                });
+        const list = new VirtualList<FilterValue>({
+            container: treeContainer,
+            rowHeight: this.getRowHeight(14),
+            fallbackHeight: category.settings.maxHeight || 400,
+            emptyText: this.localize("Visual_NoResults"),
+            renderRow: value => this.createHierarchyRow(category, value, positions.get(value), query, () => toggleExpanded(value)),
+            onRowKeyDown: (value, index, event) => {
+                const hasChildren = value.children?.length > 0;
+                const isExpanded = hasChildren && this.expandedNodes.get(category.name).has(value.key);
+
+                if (isActivationKey(event)) {
+                    event.preventDefault();
+                    this.toggleHierarchyValue(value, category);
+                } else if (event.key === "ArrowRight" && hasChildren) {
+                    // Expand a closed node, move into an open one
+                    event.preventDefault();
+                    if (isExpanded) {
+                        list.focusRow(index + 1);
+                    } else {
+                        toggleExpanded(value);
+                    }
+                } else if (event.key === "ArrowLeft") {
+                    // Collapse an open node, move to the parent of a closed one
+                    event.preventDefault();
+                    if (isExpanded) {
+                        toggleExpanded(value);
+                    } else if (value.parent) {
+                        list.focusRow(rows.indexOf(value.parent));
+                    }
+                }
             }
+        });
+        this.sectionLists.set(category.name, list);
 
-            // Render first level - show items that match or have matching descendants
-            if (category.hierarchyLevels.length > 0) {
-                const firstLevel = category.hierarchyLevels[0];
+        const actions = this.createSectionActions(category, () => query);
 
-                firstLevel.values.forEach(value => {
-                    if (searchTerm && !this.matchesSearchRecursive(value, searchTerm)) {
-                        return;
-                    }
+        searchBox.addEventListener("input", () => {
+            const searchTerm = searchBox.value;
+            this.searchTerms.set(category.name, searchTerm);
 
-                    const nodeItem = this.createHierarchyNode(category, value, 0, searchTerm);
-                    treeContainer.appendChild(nodeItem);
+            // Auto-expand the nodes that lead to matching descendants
+            const searchQuery = this.createQuery(searchTerm);
+            if (searchQuery) {
+                const expandedSet = this.expandedNodes.get(category.name);
+                category.hierarchyLevels.forEach(level => {
+                    level.values.forEach(value => {
+                        if (value.children?.some(child => this.matchesSearchRecursive(child, searchQuery))) {
+                            expandedSet.add(value.key);
+                        }
+                    });
                 });
             }
 
-            if (treeContainer.children.length === 0) {
-                const noResults = document.createElement("div");
-                noResults.className = "no-results";
-                noResults.textContent = "No results found";
-                treeContainer.appendChild(noResults);
-            }
-        };
-
-        searchBox.addEventListener("input", (e) => {
-            renderTree((e.target as HTMLInputElement).value);
+            list.scrollTop = 0;
+            renderTree();
         });
 
         renderTree();
 
-        section.appendChild(searchBox);
+        if (showSearch) {
+            section.appendChild(searchBox);
+        }
+        if (actions) {
+            section.appendChild(actions);
+        }
         section.appendChild(treeContainer);
+        this.appendLoadStatus(section, category);
 
         return section;
     }
 
-    private createHierarchyNode(category: FilterCategory, value: FilterValue, level: number, searchTerm: string = ""): HTMLElement {
-        const nodeContainer = document.createElement("div");
-        nodeContainer.className = "hierarchy-node";
+    /**
+     * Flattens the expanded part of the tree into rows. Items that match the search
+     * term or have matching descendants are kept. The position of each row among its
+     * visible siblings (1-based) and their count are collected for aria-posinset/setsize.
+     */
+    private flattenHierarchy(
+        category: FilterCategory,
+        query: SearchQuery | null,
+        positions: Map<FilterValue, [number, number]>
+    ): FilterValue[] {
+        const rows: FilterValue[] = [];
+        const expanded = this.expandedNodes.get(category.name);
+
+        const visitSiblings = (siblings: FilterValue[]) => {
+            const visible = this.sortByAvailability(category, sortValues(siblings, category.settings, this.collator))
+                .filter(value => this.isValueShown(category, value) && (!query || this.matchesSearchRecursive(value, query)));
+
+            visible.forEach((value, index) => {
+                positions.set(value, [index + 1, visible.length]);
+                rows.push(value);
+
+                if (value.children?.length > 0 && expanded?.has(value.key)) {
+                    visitSiblings(value.children);
+                }
+            });
+        };
+
+        visitSiblings(category.hierarchyLevels[0]?.values ?? []);
+        return rows;
+    }
 
-        const nodeKey = `${category.name}_${level}_${value.value}`;
-        const isExpanded = this.expandedNodes.get(category.name)?.has(nodeKey) || false;
+    private createHierarchyRow(
+        category: FilterCategory,
+        value: FilterValue,
+        position: [number, number] | undefined,
+        query: SearchQuery | null,
+        onExpandToggle: () => void
+    ): HTMLElement {
+        const isExpanded = this.expandedNodes.get(category.name)?.has(value.key) || false;
 
         // Always support ragged hierarchies: only show expand icon if item actually has children
         const hasChildren = value.children && value.children.length > 0;
@@ -556,22 +1356,29 @@ export class Visual implements IVisual {
         // Node item
         const nodeItem = document.createElement("div");
         nodeItem.className = "hierarchy-node-item";
-        nodeItem.style.paddingLeft = `${level * 12 + 8}px`;
+        nodeItem.classList.toggle("no-data", value.highlighted === false);
+        nodeItem.classList.toggle("unavailable", value.available === false);
+        nodeItem.style.paddingLeft = `${value.level * 12 + 8}px`;
+        nodeItem.setAttribute("role", "treeitem");
+        nodeItem.setAttribute("aria-level", String(value.level + 1));
+        nodeItem.setAttribute("aria-checked", value.indeterminate ? "mixed" : String(value.selected));
+        if (hasChildren) {
+            nodeItem.setAttribute("aria-expanded", String(isExpanded));
+        }
+        if (position) {
+            nodeItem.setAttribute("aria-posinset", String(position[0]));
+            nodeItem.setAttribute("aria-setsize", String(position[1]));
+        }
 
         // Expand/collapse icon
         if (hasChildren) {
             const expandIcon = document.createElement("span");
             expandIcon.className = "hierarchy-expand-icon";
             expandIcon.textContent = isExpanded ? "▼" : "▶";
+            expandIcon.setAttribute("aria-hidden", "true");
             expandIcon.addEventListener("click", (e) => {
                 e.stopPropagation();
-                const expanded = this.expandedNodes.get(category.name);
-                if (isExpanded) {
-                    expanded.delete(nodeKey);
-                } else {
-                    expanded.add(nodeKey);
-                }
-                this.renderFilters();
+                onExpandToggle();
             });
             nodeItem.appendChild(expandIcon);
         } else {
@@ -583,83 +1390,75 @@ export class Visual implements IVisual {
 
         // Checkbox
         const checkbox = document.createElement("input");
-        checkbox.type = "checkbox";
+        checkbox.type = this.isSingleSelect(category) ? "radio" : "checkbox";
         checkbox.checked = value.selected;
         checkbox.indeterminate = value.indeterminate || false;
         checkbox.className = "filter-checkbox";
+        // The row carries the checked state; the input is only visual
+        checkbox.tabIndex = -1;
+        checkbox.setAttribute("aria-hidden", "true");
+        nodeItem.classList.toggle("partially-selected", !!value.indeterminate);
         nodeItem.appendChild(checkbox);
 
         // Label
         const valueLabel = document.createElement("span");
         valueLabel.className = "filter-value-label";
-        valueLabel.textContent = value.value;
+        this.setLabelText(valueLabel, value.value, query);
         valueLabel.title = value.value; // Tooltip for truncated text
         nodeItem.appendChild(valueLabel);
+        this.appendMeasureLabel(nodeItem, value);
+
+        // Ancestors that are only listed because a descendant matches the search
+        if (query && !this.matchesSearch(value, query)) {
+            const hint = this.localize("Visual_SearchContext");
+            nodeItem.classList.add("search-context");
+            nodeItem.setAttribute("aria-description", hint);
+            valueLabel.title = `${value.value} (${hint})`;
+        }
 
         // Click handler for selection
         nodeItem.addEventListener("click", (e) => {
             e.stopPropagation();
-            this.toggleHierarchyValue(value, category, level);
+            this.toggleHierarchyValue(value, category);
         });
 
-        nodeContainer.appendChild(nodeItem);
+        return nodeItem;
+    }
+
+    private toggleHierarchyValue(filterValue: FilterValue, category: FilterCategory) {
+        const newSelectedState = !filterValue.selected;
 
-        // Render children if expanded - show children that match or have matching descendants
-        if (hasChildren && isExpanded && value.children && value.children.length > 0) {
-            value.children.forEach(childValue => {
-                // Filter by search term - check recursively
-                if (searchTerm && !this.matchesSearchRecursive(childValue, searchTerm)) {
-                    return;
-                }
+        if (this.isSingleSelect(category)) {
+            // A selected node stays selected when clicked again if a selection is required
+            if (!newSelectedState && category.settings.requireSelection) {
+                return;
+            }
+            this.clearHierarchyState(category);
+        }
 
-                const childNode = this.createHierarchyNode(category, childValue, level + 1, searchTerm);
-                nodeContainer.appendChild(childNode);
-            });
+        this.setHierarchyValueSelected(filterValue, newSelectedState);
+
+        if (!this.hasSelection(category) && category.settings.requireSelection) {
+            // Undo: the last selected branch can't be removed
+            this.setHierarchyValueSelected(filterValue, true);
+            return;
         }
 
-        return nodeContainer;
+        this.onSelectionChanged();
+        this.refreshSections();
     }
 
-    private toggleHierarchyValue(filterValue: FilterValue, category: FilterCategory, level: number) {
-        const newSelectedState = !filterValue.selected;
-        filterValue.selected = newSelectedState;
+    private setHierarchyValueSelected(filterValue: FilterValue, selected: boolean) {
+        filterValue.selected = selected;
+        filterValue.indeterminate = false;
 
         // Cascade selection to all descendants
-        this.cascadeSelectionToDescendants(filterValue, newSelectedState);
+        this.cascadeSelectionToDescendants(filterValue, selected);
 
         // Update parent selection based on children
-        if (filterValue.parentValue) {
-            this.updateParentSelectionRecursive(category, filterValue.parentValue);
-        }
-
-        // Collect all selected values from hierarchy
-        const selectedIds: ISelectionId[] = [];
-        category.hierarchyLevels.forEach(level => {
-            level.values.forEach(val => {
-                if (val.selected) {
-                    selectedIds.push(val.identity);
-                }
-            });
-        });
-
-        // Get selections from other categories
-        this.filterCategories.forEach(cat => {
-            if (cat.name !== category.name) {
-                cat.values.forEach(val => {
-                    if (val.selected) {
-                        selectedIds.push(val.identity);
-                    }
-                });
-            }
-        });
-
-        if (selectedIds.length > 0) {
-            this.selectionManager.select(selectedIds, false);
-        } else {
-            this.selectionManager.clear();
+        if (filterValue.parent) {
+            this.updateParentSelectionRecursive(filterValue.parent);
         }
-
-        this.renderFilters();
     }
 
     private cascadeSelectionToDescendants(filterValue: FilterValue, selected: boolean) {
@@ -673,254 +1472,1447 @@ export class Visual implements IVisual {
         }
     }
 
-    private updateParentSelectionRecursive(category: FilterCategory, parentValue: string) {
-        // Find the parent in all levels
-        for (const level of category.hierarchyLevels) {
-            const parent = level.values.find(v => v.value === parentValue);
-            if (parent && parent.children && parent.children.length > 0) {
-                const allChildrenSelected = parent.children.every(c => c.selected);
-                const anyChildSelected = parent.children.some(c => c.selected || c.indeterminate);
+    private updateParentSelectionRecursive(parent: FilterValue) {
+        this.applyChildrenState(parent);
 
-                if (allChildrenSelected) {
-                    parent.selected = true;
-                    parent.indeterminate = false;
-                } else if (!anyChildSelected) {
-                    parent.selected = false;
-                    parent.indeterminate = false;
-                } else {
-                    // Some children are selected or indeterminate
-                    parent.selected = false;
-                    parent.indeterminate = true;
-                }
+        // Recursively update grandparent
+        if (parent.parent) {
+            this.updateParentSelectionRecursive(parent.parent);
+        }
+    }
 
-                // Recursively update grandparent
-                if (parent.parentValue) {
-                    this.updateParentSelectionRecursive(category, parent.parentValue);
-                }
-                break;
-            }
+    /**
+     * Recomputes a whole subtree bottom-up. A selected node selects all its
+     * descendants; otherwise its state is derived from its children.
+     */
+    private updateSelectionFromChildren(filterValue: FilterValue) {
+        if (!filterValue.children || filterValue.children.length === 0) {
+            filterValue.indeterminate = false;
+            return;
+        }
+
+        if (filterValue.selected) {
+            filterValue.indeterminate = false;
+            this.cascadeSelectionToDescendants(filterValue, true);
+            return;
         }
+
+        filterValue.children.forEach(child => this.updateSelectionFromChildren(child));
+        this.applyChildrenState(filterValue);
     }
 
-    private matchesSearchRecursive(value: FilterValue, searchTerm: string): boolean {
-        if (!searchTerm) return true;
+    private applyChildrenState(parent: FilterValue) {
+        const allChildrenSelected = parent.children.every(c => c.selected);
+        const anyChildSelected = parent.children.some(c => c.selected || c.indeterminate);
 
-        const term = searchTerm.toLowerCase();
+        if (allChildrenSelected) {
+            parent.selected = true;
+            parent.indeterminate = false;
+        } else if (!anyChildSelected) {
+            parent.selected = false;
+            parent.indeterminate = false;
+        } else {
+            // Some children are selected or indeterminate
+            parent.selected = false;
+            parent.indeterminate = true;
+        }
+    }
+
+    private matchesSearchRecursive(value: FilterValue, query: SearchQuery | null): boolean {
+        if (!query) return true;
 
         // Check if this value matches
-        if (value.value.toLowerCase().includes(term)) {
+        if (this.matchesSearch(value, query)) {
             return true;
         }
 
         // Check if any children match
         if (value.children && value.children.length > 0) {
-            return value.children.some(child => this.matchesSearchRecursive(child, searchTerm));
+            return value.children.some(child => this.matchesSearchRecursive(child, query));
         }
 
         return false;
     }
 
-    private createStandardSection(category: FilterCategory): HTMLElement {
-        const section = document.createElement("div");
-        section.className = "filter-section";
-
-        // Category header
-        const header = document.createElement("div");
-        header.className = "filter-header collapsible-header";
+    private createQuery(searchTerm: string): SearchQuery | null {
+        const mode = this.formattingSettings.searchBoxCard.matchMode.value?.value as SearchMode;
+        return createSearchQuery(searchTerm, mode ?? "contains");
+    }
 
-        // Collapse/expand icon
-        const collapseIcon = document.createElement("span");
-        collapseIcon.className = "collapse-icon";
-        collapseIcon.textContent = category.collapsed ? "▶" : "▼";
+    /**
+     * Searches the formatted label and, for text and numbers, the raw value, so
+     * "1234" still finds a value displayed as "1,234.00".
+     */
+    private matchesSearch(value: FilterValue, query: SearchQuery): boolean {
+        let texts = this.searchTexts.get(value);
+        if (!texts) {
+            const raw = value.rawValue;
+            texts = typeof raw === "string" || typeof raw === "number"
+                ? [normalizeText(value.value), normalizeText(String(raw))]
+                : [normalizeText(value.value)];
+            this.searchTexts.set(value, texts);
+        }
+        return matchesQuery(texts, query);
+    }
 
-        const label = document.createElement("div");
-        label.className = "filter-label";
-        label.textContent = category.displayName;
+    /**
+     * Fills a value label, wrapping the parts that match the search in highlight marks.
+     */
+    private setLabelText(label: HTMLElement, text: string, query: SearchQuery | null) {
+        let position = 0;
 
-        const clearBtn = document.createElement("button");
-        clearBtn.className = "clear-button";
-        clearBtn.textContent = "Clear";
-        clearBtn.addEventListener("click", (e) => {
-            e.stopPropagation();
-            this.clearCategorySelection(category);
+        (query ? findMatchRanges(text, query) : []).forEach(([start, end]) => {
+            if (start > position) {
+                label.appendChild(document.createTextNode(text.slice(position, start)));
+            }
+            const mark = document.createElement("mark");
+            mark.className = "search-highlight";
+            mark.textContent = text.slice(start, end);
+            label.appendChild(mark);
+            position = end;
         });
 
-        header.appendChild(collapseIcon);
-        header.appendChild(label);
-        header.appendChild(clearBtn);
+        if (position < text.length) {
+            label.appendChild(document.createTextNode(text.slice(position)));
+        }
+    }
 
-        // Toggle collapse on header click
-        header.addEventListener("click", () => {
-            category.collapsed = !category.collapsed;
-            this.renderFilters();
-        });
+    private createStandardSection(category: FilterCategory): HTMLElement {
+        const section = document.createElement("div");
+        section.className = "filter-section";
 
-        section.appendChild(header);
+        section.appendChild(this.createSectionHeader(section, category, () => this.clearCategorySelection(category)));
 
         // Return early if collapsed
         if (category.collapsed) {
             return section;
         }
 
+        const showSearch = this.formattingSettings.searchBoxCard.show.value && category.settings.showSearch;
+
         // Search box
         const searchBox = document.createElement("input");
         searchBox.type = "text";
         searchBox.className = "filter-search";
-        searchBox.placeholder = `Search ${category.name}...`;
+        searchBox.placeholder = this.localize("Visual_SearchCategory", category.displayName);
+        searchBox.setAttribute("aria-label", this.localize("Visual_SearchLabel", category.displayName));
+        searchBox.value = showSearch ? this.searchTerms.get(category.name) ?? "" : "";
 
-        // Values container
+        // Values container, only the visible rows get DOM nodes
         const valuesContainer = document.createElement("div");
         valuesContainer.className = "filter-values";
+        this.applyMaxHeight(valuesContainer, category);
+        valuesContainer.setAttribute("role", this.isSingleSelect(category) ? "radiogroup" : "group");
+        valuesContainer.setAttribute("aria-label", category.displayName);
+
+        let query: SearchQuery | null = null;
+
+        const list = new VirtualList<FilterValue>({
+            container: valuesContainer,
+            rowHeight: this.getRowHeight(20),
+            fallbackHeight: category.settings.maxHeight || 200,
+            emptyText: this.localize("Visual_NoResults"),
+            renderRow: filterValue => this.createValueItem(category, filterValue, query),
+            onRowKeyDown: (filterValue, index, event) => {
+                if (isActivationKey(event)) {
+                    event.preventDefault();
+                    this.toggleSelection(filterValue, category);
+                }
+            }
+        });
+        this.sectionLists.set(category.name, list);
+
+        const actions = this.createSectionActions(category, () => query);
 
-        // Render all values
         const renderValues = (searchTerm: string = "") => {
-            while (valuesContainer.firstChild) {
-                valuesContainer.removeChild(valuesContainer.firstChild);
-            }
-            const filteredValues = searchTerm
-                ? category.values.filter(v => v.value.toLowerCase().includes(searchTerm.toLowerCase()))
-                : category.values;
-
-            if (filteredValues.length === 0) {
-                const noResults = document.createElement("div");
-                noResults.className = "no-results";
-                noResults.textContent = "No results found";
-                valuesContainer.appendChild(noResults);
-                return;
+            query = this.createQuery(searchTerm);
+            const filteredValues = category.values
+                .filter(v => this.isValueShown(category, v) && (!query || this.matchesSearch(v, query)));
+
+            list.setRows(this.sortByAvailability(category, sortValues(filteredValues, category.settings, this.collator)));
+            this.updateSectionActions(actions, query);
+        };
+        this.sectionRenderers.set(category.name, () => renderValues(searchBox.value));
+
+        searchBox.addEventListener("input", () => {
+            this.searchTerms.set(category.name, searchBox.value);
+            list.scrollTop = 0;
+            renderValues(searchBox.value);
+        });
+
+        renderValues(searchBox.value);
+
+        if (showSearch) {
+            section.appendChild(searchBox);
+        }
+        if (actions) {
+            section.appendChild(actions);
+        }
+        section.appendChild(valuesContainer);
+        this.appendLoadStatus(section, category);
+
+        return section;
+    }
+
+    /**
+     * Range section for numeric and date columns: a two-handle slider with min/max
+     * inputs and between/before/after modes, applied as an advanced filter.
+     */
+    private createRangeSection(category: FilterCategory): HTMLElement {
+        const section = document.createElement("div");
+        section.className = "filter-section range-section";
+
+        section.appendChild(this.createSectionHeader(section, category, () => {
+            this.clearRangeSelection(category);
+            this.replaceSection(section, category);
+        }));
+
+        // Return early if collapsed
+        if (category.collapsed) {
+            return section;
+        }
+
+        const range = category.range;
+        const valueType = category.valueType;
+        const inputType = valueType === "dateTime" ? "date" : "number";
+        const step = getRangeStep(category.values, valueType, range);
+
+        const body = document.createElement("div");
+        body.className = "range-body";
+
+        // Mode selector
+        const modeSelect = document.createElement("select");
+        modeSelect.className = "range-mode";
+        modeSelect.setAttribute("aria-label", this.localize("Visual_Range_Mode", category.displayName));
+        const modes: Array<[string, string]> = valueType === "dateTime"
+            ? [["between", "Visual_Range_Between"], ["before", "Visual_Range_Before"], ["after", "Visual_Range_After"]]
+            : [["between", "Visual_Range_Between"], ["before", "Visual_Range_AtMost"], ["after", "Visual_Range_AtLeast"]];
+        modes.forEach(([value, key]) => {
+            const option = document.createElement("option");
+            option.value = value;
+            option.textContent = this.localize(key);
+            modeSelect.appendChild(option);
+        });
+        modeSelect.value = range.mode;
+
+        // Min/max inputs
+        const inputs = document.createElement("div");
+        inputs.className = "range-inputs";
+
+        const createInput = (className: string) => {
+            const input = document.createElement("input");
+            input.type = inputType;
+            input.className = `range-input ${className}`;
+            input.min = toInputValue(range.min, valueType);
+            input.max = toInputValue(range.max, valueType);
+            if (valueType !== "dateTime") {
+                input.step = String(step);
             }
+            return input;
+        };
+        const fromInput = createInput("range-from");
+        const toInput = createInput("range-to");
+        fromInput.setAttribute("aria-label", this.localize("Visual_Range_From", category.displayName));
+        toInput.setAttribute("aria-label", this.localize("Visual_Range_To", category.displayName));
+        const separator = document.createElement("span");
+        separator.className = "range-separator";
+        separator.textContent = "–";
+
+        inputs.appendChild(fromInput);
+        inputs.appendChild(separator);
+        inputs.appendChild(toInput);
+
+        // Two-handle slider built from two overlapping range inputs
+        const slider = document.createElement("div");
+        slider.className = "range-slider";
+        const track = document.createElement("div");
+        track.className = "range-track";
+        const fill = document.createElement("div");
+        fill.className = "range-fill";
+        track.appendChild(fill);
+
+        const createHandle = (className: string) => {
+            const handle = document.createElement("input");
+            handle.type = "range";
+            handle.className = `range-handle ${className}`;
+            handle.min = String(range.min);
+            handle.max = String(range.max);
+            handle.step = String(step);
+            return handle;
+        };
+        const fromHandle = createHandle("range-from");
+        const toHandle = createHandle("range-to");
+        fromHandle.setAttribute("aria-label", this.localize("Visual_Range_Minimum", category.displayName));
+        toHandle.setAttribute("aria-label", this.localize("Visual_Range_Maximum", category.displayName));
+
+        slider.appendChild(track);
+        slider.appendChild(fromHandle);
+        slider.appendChild(toHandle);
+
+        const currentFrom = () => range.from ?? range.min;
+        const currentTo = () => range.to ?? range.max;
+
+        const updateControls = () => {
+            const span = range.max - range.min || 1;
+            const showFrom = range.mode !== "before";
+            const showTo = range.mode !== "after";
+
+            fromInput.value = range.from !== undefined ? toInputValue(range.from, valueType) : "";
+            toInput.value = range.to !== undefined ? toInputValue(range.to, valueType) : "";
+            fromInput.placeholder = toInputValue(range.min, valueType);
+            toInput.placeholder = toInputValue(range.max, valueType);
+            fromHandle.value = String(currentFrom());
+            toHandle.value = String(currentTo());
+
+            fromInput.style.display = showFrom ? "" : "none";
+            fromHandle.style.display = showFrom ? "" : "none";
+            toInput.style.display = showTo ? "" : "none";
+            toHandle.style.display = showTo ? "" : "none";
+            separator.style.display = showFrom && showTo ? "" : "none";
+
+            const left = showFrom ? (currentFrom() - range.min) / span : 0;
+            const right = showTo ? (currentTo() - range.min) / span : 1;
+            fill.style.left = `${left * 100}%`;
+            fill.style.width = `${Math.max(0, right - left) * 100}%`;
+        };
 
-            filteredValues.forEach(filterValue => {
-                const valueItem = document.createElement("div");
-                valueItem.className = "filter-value-item";
-                if (filterValue.selected) {
-                    valueItem.classList.add("selected");
-                }
+        const commit = () => {
+            this.syncRangeSelection(category);
+            this.onSelectionChanged();
+        };
 
-                const checkbox = document.createElement("input");
-                checkbox.type = "checkbox";
-                checkbox.checked = filterValue.selected;
-                checkbox.className = "filter-checkbox";
+        const clamp = (value: number) => Math.min(range.max, Math.max(range.min, value));
 
-                const valueLabel = document.createElement("span");
-                valueLabel.className = "filter-value-label";
-                valueLabel.textContent = filterValue.value;
-                valueLabel.title = filterValue.value; // Tooltip for truncated text
+        modeSelect.addEventListener("change", () => {
+            range.mode = modeSelect.value as RangeMode;
+            updateControls();
+            commit();
+        });
 
-                valueItem.appendChild(checkbox);
-                valueItem.appendChild(valueLabel);
+        // Date handles land on local midnight, like the values and the date inputs
+        const handleValue = (handle: HTMLInputElement) => valueType === "dateTime"
+            ? snapToDay(Number(handle.value))
+            : Number(handle.value);
 
-                valueItem.addEventListener("click", (e) => {
-                    e.stopPropagation();
-                    this.toggleSelection(filterValue, category);
-                });
+        fromHandle.addEventListener("input", () => {
+            range.from = Math.min(handleValue(fromHandle), currentTo());
+            updateControls();
+        });
+        toHandle.addEventListener("input", () => {
+            range.to = Math.max(handleValue(toHandle), currentFrom());
+            updateControls();
+        });
+        fromHandle.addEventListener("change", commit);
+        toHandle.addEventListener("change", commit);
+
+        fromInput.addEventListener("change", () => {
+            const value = fromInputValue(fromInput.value, valueType);
+            range.from = value === null ? undefined : Math.min(clamp(value), currentTo());
+            updateControls();
+            commit();
+        });
+        toInput.addEventListener("change", () => {
+            const value = fromInputValue(toInput.value, valueType);
+            range.to = value === null ? undefined : Math.max(clamp(value), currentFrom());
+            updateControls();
+            commit();
+        });
+
+        updateControls();
+
+        body.appendChild(modeSelect);
+        body.appendChild(inputs);
+        body.appendChild(slider);
+        section.appendChild(body);
+        this.appendLoadStatus(section, category);
+
+        return section;
+    }
+
+    /**
+     * Relative date section for date columns: "last N days/weeks/months", "this quarter",
+     * "year to date"... The period is stored in the field settings and resolved against
+     * today (or the anchor date) on every update.
+     */
+    private createRelativeDateSection(category: FilterCategory): HTMLElement {
+        const section = document.createElement("div");
+        section.className = "filter-section relative-date-section";
+
+        section.appendChild(this.createSectionHeader(section, category, () => {
+            this.setRelativePeriod(category, { relativePeriod: "none" });
+            this.replaceSection(section, category);
+        }));
+
+        // Return early if collapsed
+        if (category.collapsed) {
+            return section;
+        }
+
+        const settings = category.settings;
 
-                valuesContainer.appendChild(valueItem);
+        const body = document.createElement("div");
+        body.className = "range-body";
+
+        const controls = document.createElement("div");
+        controls.className = "range-inputs";
+
+        // Option texts are translated from "<keyPrefix><value>" resource keys
+        const createSelect = (className: string, options: powerbi.IEnumMember[], keyPrefix: string, value: string) => {
+            const select = document.createElement("select");
+            select.className = `range-mode ${className}`;
+            options.forEach(option => {
+                const element = document.createElement("option");
+                element.value = String(option.value);
+                element.textContent = this.localize(`${keyPrefix}${option.value}`);
+                select.appendChild(element);
             });
+            select.value = value;
+            return select;
+        };
+
+        const periodSelect = createSelect("relative-period", relativePeriodOptions, "Visual_RelativePeriod_", settings.relativePeriod);
+        const unitSelect = createSelect("relative-unit", relativeUnitOptions, "Visual_RelativeUnit_", settings.relativeUnit);
+        periodSelect.setAttribute("aria-label", this.localize("Visual_Relative_Period", category.displayName));
+        unitSelect.setAttribute("aria-label", this.localize("Visual_Relative_Unit", category.displayName));
+
+        const countInput = document.createElement("input");
+        countInput.type = "number";
+        countInput.className = "range-input relative-count";
+        countInput.setAttribute("aria-label", this.localize("Visual_Relative_Count", category.displayName));
+        countInput.min = "1";
+        countInput.step = "1";
+        countInput.value = String(settings.relativeCount);
+
+        controls.appendChild(periodSelect);
+        controls.appendChild(countInput);
+        controls.appendChild(unitSelect);
+
+        // Resolved dates of the current period
+        const summary = document.createElement("div");
+        summary.className = "relative-date-summary";
+        summary.setAttribute("aria-live", "polite");
+
+        const updateControls = () => {
+            const period = settings.relativePeriod;
+            countInput.style.display = period === "last" ? "" : "none";
+            unitSelect.style.display = period === "none" ? "none" : "";
+
+            const bounds = computeRelativeRange(settings);
+            if (!bounds) {
+                summary.textContent = this.localize("Visual_Relative_AllDates");
+                return;
+            }
+
+            const format = (value: number) => this.formatRangeValue(category, value);
+            summary.textContent = bounds.from === bounds.to
+                ? format(bounds.from)
+                : `${format(bounds.from)} – ${format(bounds.to)}`;
+            const anchor = parseAnchorDate(settings);
+            if (anchor) {
+                summary.textContent += ` ${this.localize("Visual_Relative_AnchoredTo", format(anchor.getTime()))}`;
+            }
         };
 
-        searchBox.addEventListener("input", (e) => {
-            renderValues((e.target as HTMLInputElement).value);
+        periodSelect.addEventListener("change", () => {
+            this.setRelativePeriod(category, { relativePeriod: periodSelect.value as RelativeDatePeriod });
+            updateControls();
+        });
+        unitSelect.addEventListener("change", () => {
+            this.setRelativePeriod(category, { relativeUnit: unitSelect.value as RelativeDateUnit });
+            updateControls();
+        });
+        countInput.addEventListener("change", () => {
+            const count = Math.max(1, Math.floor(Number(countInput.value)) || 1);
+            countInput.value = String(count);
+            this.setRelativePeriod(category, { relativeCount: count });
+            updateControls();
         });
 
-        renderValues();
+        updateControls();
 
-        section.appendChild(searchBox);
-        section.appendChild(valuesContainer);
+        body.appendChild(controls);
+        body.appendChild(summary);
+        section.appendChild(body);
 
         return section;
     }
 
-    private toggleSelection(filterValue: FilterValue, category: FilterCategory) {
-        filterValue.selected = !filterValue.selected;
+    /**
+     * Changes the relative period of a section, stores it with the field so it
+     * survives reloads, and applies the resolved range.
+     */
+    private setRelativePeriod(
+        category: FilterCategory,
+        changes: { relativePeriod?: RelativeDatePeriod, relativeCount?: number, relativeUnit?: RelativeDateUnit }
+    ) {
+        this.updateRelativePeriod(category, changes);
+        this.onSelectionChanged();
+    }
 
-        // Get all selected identities
-        const selectedIds: ISelectionId[] = [];
-        this.filterCategories.forEach(cat => {
-            cat.values.forEach(val => {
-                if (val.selected) {
-                    selectedIds.push(val.identity);
-                }
+    private updateRelativePeriod(
+        category: FilterCategory,
+        changes: { relativePeriod?: RelativeDatePeriod, relativeCount?: number, relativeUnit?: RelativeDateUnit }
+    ) {
+        Object.assign(category.settings, changes);
+
+        const bounds = computeRelativeRange(category.settings);
+        category.range.mode = "between";
+        category.range.from = bounds?.from;
+        category.range.to = bounds?.to;
+        this.syncRangeSelection(category);
+
+        // In apply mode the period is stored together with the rest on Apply
+        if (category.queryName && !this.isDeferredApply()) {
+            this.host.persistProperties({
+                merge: [{
+                    objectName: "fieldSettings",
+                    selector: { metadata: category.queryName },
+                    properties: changes
+                }]
             });
+        }
+    }
+
+    /**
+     * Keeps the values of a range section marked as selected when they fall into
+     * the range, so cross-highlighting and restoring work like for value lists.
+     */
+    private syncRangeSelection(category: FilterCategory) {
+        category.values.forEach(val => val.selected = isInRange(category.range, val.rawValue, category.valueType));
+    }
+
+    /**
+     * Without a persisted filter, the range is derived from the selected values.
+     */
+    private restoreRangeFromValues(category: FilterCategory) {
+        const selected = category.values
+            .filter(val => val.selected)
+            .map(val => toRangeNumber(val.rawValue))
+            .filter(value => value !== null);
+
+        category.range.mode = "between";
+        category.range.from = selected.length > 0 ? Math.min(...selected) : undefined;
+        category.range.to = selected.length > 0 ? Math.max(...selected) : undefined;
+    }
+
+    private clearRangeSelection(category: FilterCategory) {
+        category.range.from = undefined;
+        category.range.to = undefined;
+        this.syncRangeSelection(category);
+        this.onSelectionChanged();
+    }
+
+    private createValueItem(category: FilterCategory, filterValue: FilterValue, query: SearchQuery | null): HTMLElement {
+        const valueItem = document.createElement("div");
+        valueItem.className = "filter-value-item";
+        if (filterValue.selected) {
+            valueItem.classList.add("selected");
+        }
+        valueItem.classList.toggle("no-data", filterValue.highlighted === false);
+        valueItem.classList.toggle("unavailable", filterValue.available === false);
+
+        valueItem.setAttribute("role", this.isSingleSelect(category) ? "radio" : "checkbox");
+        valueItem.setAttribute("aria-checked", String(filterValue.selected));
+
+        const checkbox = document.createElement("input");
+        checkbox.type = this.isSingleSelect(category) ? "radio" : "checkbox";
+        checkbox.checked = filterValue.selected;
+        checkbox.className = "filter-checkbox";
+        // The row carries the checked state; the input is only visual
+        checkbox.tabIndex = -1;
+        checkbox.setAttribute("aria-hidden", "true");
+
+        const valueLabel = document.createElement("span");
+        valueLabel.className = "filter-value-label";
+        this.setLabelText(valueLabel, filterValue.value, query);
+        valueLabel.title = filterValue.value; // Tooltip for truncated text
+
+        valueItem.appendChild(checkbox);
+        valueItem.appendChild(valueLabel);
+        this.appendMeasureLabel(valueItem, filterValue);
+
+        valueItem.addEventListener("click", (e) => {
+            e.stopPropagation();
+            this.toggleSelection(filterValue, category);
         });
 
-        // Apply selection
-        if (selectedIds.length > 0) {
-            this.selectionManager.select(selectedIds, false);
+        return valueItem;
+    }
+
+    /**
+     * Shows the formatted measure of a value at the end of its row.
+     */
+    private appendMeasureLabel(row: HTMLElement, filterValue: FilterValue) {
+        if (!this.measureFormatter || filterValue.measure === undefined) {
+            return;
+        }
+
+        const measureLabel = document.createElement("span");
+        measureLabel.className = "filter-value-measure";
+        measureLabel.textContent = this.measureFormatter.format(filterValue.measure);
+        row.appendChild(measureLabel);
+    }
+
+    /**
+     * Tells the user that the list is incomplete while segments are still loading
+     * or when Power BI refused to fetch more rows.
+     */
+    private appendLoadStatus(section: HTMLElement, category: FilterCategory) {
+        if (!this.hasMoreData) {
+            return;
+        }
+
+        const levels = category.hierarchyLevels;
+        const count = category.isHierarchy
+            ? levels[levels.length - 1]?.values.length ?? 0
+            : category.values.length;
+
+        const status = document.createElement("div");
+        status.className = "load-status";
+        if (this.isLoadingMore) {
+            status.classList.add("loading");
+            status.textContent = this.localize("Visual_LoadingMore", count);
         } else {
-            this.selectionManager.clear();
+            status.textContent = this.localize("Visual_MoreDataAvailable", count);
         }
+        section.appendChild(status);
+    }
 
-        // Re-render to update UI
-        this.renderFilters();
+    /**
+     * Values without highlighted data are hidden when the report author turned off
+     * "Show Items With No Data", values ruled out by cascading when the section hides
+     * unavailable values. Checked values stay so they can be unchecked.
+     */
+    private isValueShown(category: FilterCategory, filterValue: FilterValue): boolean {
+        if (filterValue.selected || filterValue.indeterminate) {
+            return true;
+        }
+        if (filterValue.available === false && category.settings.unavailableItems === "hide") {
+            return false;
+        }
+        return filterValue.highlighted !== false || this.formattingSettings.valueItemsCard.showItemsWithNoData.value;
     }
 
-    private clearCategorySelection(category: FilterCategory) {
-        category.values.forEach(val => val.selected = false);
+    /**
+     * Moves values ruled out by cascading behind the others, keeping their order.
+     */
+    private sortByAvailability(category: FilterCategory, values: FilterValue[]): FilterValue[] {
+        if (category.settings.unavailableItems !== "sortLast") {
+            return values;
+        }
+        return [
+            ...values.filter(value => value.available !== false),
+            ...values.filter(value => value.available === false)
+        ];
+    }
 
-        // Get remaining selected identities
-        const selectedIds: ISelectionId[] = [];
-        this.filterCategories.forEach(cat => {
-            cat.values.forEach(val => {
-                if (val.selected) {
-                    selectedIds.push(val.identity);
-                }
+    /**
+     * Translated UI string for the host locale. "{0}", "{1}"... are replaced with the arguments.
+     */
+    private localize(key: string, ...args: Array<string | number>): string {
+        const text = this.localizationManager.getDisplayName(key);
+        return text.replace(/\{(\d+)\}/g, (match, index) => args[index] !== undefined ? String(args[index]) : match);
+    }
+
+    /**
+     * Panel title set by the report author, the translated "Filters" otherwise.
+     */
+    private getPanelTitle(): string {
+        return this.formattingSettings?.menuCard.title.value.trim() || this.localize("Visual_Filters");
+    }
+
+    /**
+     * Label of empty values set by the report author, the translated "(Blank)" otherwise.
+     */
+    private getBlankLabel(): string {
+        return this.formattingSettings?.valueItemsCard.blankLabel.value || this.localize("Visual_Blank");
+    }
+
+    /**
+     * Bulk actions under the search box of multi-select sections. "Select results"
+     * is only enabled while a search is active.
+     */
+    private createSectionActions(category: FilterCategory, getQuery: () => SearchQuery | null): HTMLElement | null {
+        if (this.isSingleSelect(category)) {
+            return null;
+        }
+
+        const actions = document.createElement("div");
+        actions.className = "section-actions";
+
+        const addAction = (className: string, key: string, action: BulkAction) => {
+            const button = document.createElement("button");
+            button.className = `section-action ${className}`;
+            button.textContent = this.localize(key);
+            button.addEventListener("click", (e) => {
+                e.stopPropagation();
+                this.applyBulkAction(category, action, getQuery());
             });
-            if (cat.hierarchyLevels) {
-                cat.hierarchyLevels.forEach(level => {
-                    level.values.forEach(val => {
-                        if (val.selected) {
-                            selectedIds.push(val.identity);
+            actions.appendChild(button);
+        };
+
+        addAction("select-all", "Visual_SelectAll", "selectAll");
+        addAction("invert-selection", "Visual_InvertSelection", "invert");
+        addAction("select-matches", "Visual_SelectMatches", "selectMatches");
+
+        return actions;
+    }
+
+    private updateSectionActions(actions: HTMLElement | null, query: SearchQuery | null) {
+        const selectMatches = actions?.querySelector<HTMLButtonElement>(".select-matches");
+        if (selectMatches) {
+            selectMatches.disabled = !query;
+        }
+    }
+
+    /**
+     * Applies a bulk action to the whole section (not just the visible rows) and
+     * pushes the result to the host in a single call. Hierarchy actions cascade
+     * to descendants and recompute the parents like a click on a node.
+     */
+    private applyBulkAction(category: FilterCategory, action: BulkAction, query: SearchQuery | null) {
+        if (category.isHierarchy) {
+            const roots = category.hierarchyLevels[0]?.values ?? [];
+            const nodes = category.hierarchyLevels.flatMap(level => level.values);
+
+            switch (action) {
+                case "selectAll":
+                    roots.forEach(root => this.setHierarchyValueSelected(root, true));
+                    break;
+                case "invert":
+                    // Invert the leaves, then derive every parent from its children
+                    nodes.forEach(node => {
+                        if (node.children?.length > 0) {
+                            node.selected = false;
+                            node.indeterminate = false;
+                        } else {
+                            node.selected = !node.selected;
                         }
                     });
-                });
+                    roots.forEach(root => this.updateSelectionFromChildren(root));
+                    break;
+                case "selectMatches":
+                    if (query) {
+                        nodes
+                            .filter(node => this.matchesSearch(node, query))
+                            .forEach(node => this.setHierarchyValueSelected(node, true));
+                    }
+                    break;
             }
-        });
-
-        if (selectedIds.length > 0) {
-            this.selectionManager.select(selectedIds, false);
         } else {
-            this.selectionManager.clear();
+            switch (action) {
+                case "selectAll":
+                    category.values.forEach(val => val.selected = true);
+                    break;
+                case "invert":
+                    category.values.forEach(val => val.selected = !val.selected);
+                    break;
+                case "selectMatches":
+                    if (query) {
+                        category.values
+                            .filter(val => this.matchesSearch(val, query))
+                            .forEach(val => val.selected = true);
+                    }
+                    break;
+            }
         }
 
-        this.renderFilters();
+        // Inverting a full selection must not leave a required section empty
+        if (category.settings.requireSelection && !this.hasSelection(category)) {
+            this.selectDefaultValue(category);
+        }
+
+        this.onSelectionChanged();
+        this.refreshSections();
+    }
+
+    private toggleSelection(filterValue: FilterValue, category: FilterCategory) {
+        const newSelectedState = !filterValue.selected;
+
+        // The last selected value can't be removed if a selection is required
+        if (!newSelectedState && category.settings.requireSelection
+            && category.values.filter(val => val.selected).length <= 1) {
+            return;
+        }
+
+        if (this.isSingleSelect(category)) {
+            category.values.forEach(val => val.selected = false);
+        }
+        filterValue.selected = newSelectedState;
+
+        this.onSelectionChanged();
+
+        // Patch the visible rows to update UI
+        this.refreshSections();
+    }
+
+    private clearCategorySelection(category: FilterCategory) {
+        category.values.forEach(val => val.selected = false);
+        if (category.settings.requireSelection) {
+            this.selectDefaultValue(category);
+        }
+
+        this.onSelectionChanged();
+        this.refreshSections();
     }
 
     private clearHierarchySelection(category: FilterCategory) {
+        this.clearHierarchyState(category);
+        if (category.settings.requireSelection) {
+            this.selectDefaultValue(category);
+        }
+
+        this.onSelectionChanged();
+        this.refreshSections();
+    }
+
+    private clearHierarchyState(category: FilterCategory) {
         // Clear all selections in this hierarchy
         category.hierarchyLevels.forEach(level => {
-            level.values.forEach(val => val.selected = false);
+            level.values.forEach(val => {
+                val.selected = false;
+                val.indeterminate = false;
+            });
         });
+    }
 
-        // Get remaining selected identities from other categories
-        const selectedIds: ISelectionId[] = [];
-        this.filterCategories.forEach(cat => {
-            if (cat.name !== category.name) {
+    /**
+     * Clears a category without pushing the change to the host. Sections that
+     * require a selection fall back to their default value.
+     */
+    private resetCategory(category: FilterCategory) {
+        if (category.range && category.settings.sectionType === "relativeDate") {
+            this.updateRelativePeriod(category, { relativePeriod: "none" });
+        } else if (category.range) {
+            category.range.from = undefined;
+            category.range.to = undefined;
+            this.syncRangeSelection(category);
+        } else if (category.isHierarchy) {
+            this.clearHierarchyState(category);
+        } else {
+            category.values.forEach(val => val.selected = false);
+        }
+
+        if (!category.range && category.settings.requireSelection && !this.hasSelection(category)) {
+            this.selectDefaultValue(category);
+        }
+    }
+
+    /**
+     * Clears every section as a single change.
+     */
+    private resetAll() {
+        this.getVisibleCategories().forEach(category => this.resetCategory(category));
+        this.onSelectionChanged();
+        this.renderFilters();
+        this.focusSummary();
+    }
+
+    private isCategoryActive(category: FilterCategory): boolean {
+        return category.range ? isRangeActive(category.range) : this.hasSelection(category);
+    }
+
+    /**
+     * Rebuilds the chips under the panel title and the count on the burger button.
+     */
+    private updateSummary() {
+        const activeCategories = this.getVisibleCategories().filter(category => this.isCategoryActive(category));
+        this.updateBadge(activeCategories.length);
+        this.renderRail();
+
+        const strip = this.summaryStrip;
+        if (!strip) {
+            return;
+        }
+
+        strip.replaceChildren();
+        strip.classList.toggle("empty", activeCategories.length === 0);
+
+        activeCategories.forEach(category => {
+            this.getSummaryChips(category).forEach(chip => strip.appendChild(this.createSummaryChip(chip)));
+        });
+
+        if (activeCategories.length > 0) {
+            const resetButton = document.createElement("button");
+            resetButton.className = "reset-all-button";
+            resetButton.textContent = this.localize("Visual_ResetAll");
+            resetButton.addEventListener("click", () => this.resetAll());
+            strip.appendChild(resetButton);
+        }
+    }
+
+    /**
+     * Removing a chip rebuilds the menu, so focus moves to the next chip (or the
+     * close button once nothing is filtered) instead of getting lost.
+     */
+    private focusSummary() {
+        const next = this.summaryStrip?.querySelector<HTMLElement>(".summary-chip-remove, .reset-all-button");
+        (next ?? this.closeButton).focus();
+    }
+
+    private updateBadge(count: number) {
+        const showCount = this.formattingSettings?.burgerButtonCard.showCount.value ?? true;
+        this.burgerBadge.textContent = count > 0 ? String(count) : "";
+        this.burgerBadge.classList.toggle("visible", count > 0 && showCount);
+        this.burgerButton.setAttribute("aria-label", count > 0
+            ? this.localize("Visual_OpenFiltersActive", count)
+            : this.localize("Visual_OpenFilters"));
+    }
+
+    /**
+     * One chip per selected value (or hierarchy branch), or a single "Name: N selected"
+     * chip when more than a few values are selected. Ranges show their bounds.
+     */
+    private getSummaryChips(category: FilterCategory): SummaryChip[] {
+        const name = category.displayName;
+        const resetCategory = () => this.resetCategory(category);
+
+        if (category.range) {
+            return [{ text: `${name}: ${this.describeRange(category)}`, remove: resetCategory }];
+        }
+
+        const selected = this.getSelectedValues(category);
+        if (selected.length > maxValueChips) {
+            return [{ text: this.localize("Visual_SelectedCount", name, selected.length), remove: resetCategory }];
+        }
+
+        return selected.map(value => ({
+            text: `${name}: ${this.getValuePath(value)}`,
+            remove: () => {
+                if (category.isHierarchy) {
+                    this.setHierarchyValueSelected(value, false);
+                } else {
+                    value.selected = false;
+                }
+                if (category.settings.requireSelection && !this.hasSelection(category)) {
+                    this.selectDefaultValue(category);
+                }
+            }
+        }));
+    }
+
+    private createSummaryChip(chip: SummaryChip): HTMLElement {
+        const element = document.createElement("span");
+        element.className = "summary-chip";
+
+        const label = document.createElement("span");
+        label.className = "summary-chip-label";
+        label.textContent = chip.text;
+        label.title = chip.text;
+
+        const removeButton = document.createElement("button");
+        removeButton.className = "summary-chip-remove";
+        removeButton.textContent = "×";
+        removeButton.setAttribute("aria-label", this.localize("Visual_RemoveFilter", chip.text));
+        removeButton.addEventListener("click", () => {
+            chip.remove();
+            this.onSelectionChanged();
+            this.renderFilters();
+            this.focusSummary();
+        });
+
+        element.appendChild(label);
+        element.appendChild(removeButton);
+        return element;
+    }
+
+    /**
+     * Selected values of a list section, or the selected branches of a hierarchy.
+     */
+    private getSelectedValues(category: FilterCategory): FilterValue[] {
+        if (!category.isHierarchy) {
+            return category.values.filter(val => val.selected);
+        }
+        const selected: FilterValue[] = [];
+        (category.hierarchyLevels[0]?.values ?? []).forEach(val => this.collectSelectedNodes(val, selected));
+        return selected;
+    }
+
+    // Ranges count as one selection
+    private getActiveCount(category: FilterCategory): number {
+        if (category.range) {
+            return isRangeActive(category.range) ? 1 : 0;
+        }
+        return this.getSelectedValues(category).length;
+    }
+
+    /**
+     * Topmost fully selected nodes, i.e. the branches a user would name.
+     */
+    private collectSelectedNodes(filterValue: FilterValue, nodes: FilterValue[]) {
+        if (filterValue.selected) {
+            nodes.push(filterValue);
+        } else if (filterValue.indeterminate) {
+            filterValue.children?.forEach(child => this.collectSelectedNodes(child, nodes));
+        }
+    }
+
+    private getValuePath(filterValue: FilterValue): string {
+        const parts: string[] = [];
+        for (let node = filterValue; node; node = node.parent) {
+            parts.unshift(node.value);
+        }
+        return parts.join(" › ");
+    }
+
+    /**
+     * Formats a range bound: dates with the column's format in the host locale,
+     * numbers in the host locale.
+     */
+    private formatRangeValue(category: FilterCategory, value: number): string {
+        return category.valueType === "dateTime"
+            ? category.formatValue(new Date(value))
+            : value.toLocaleString(this.host.locale);
+    }
+
+    private describeRange(category: FilterCategory): string {
+        const format = (value: number) => this.formatRangeValue(category, value);
+        const { from, to } = getEffectiveBounds(category.range);
+
+        if (from !== undefined && to !== undefined) {
+            return from === to ? format(from) : `${format(from)} – ${format(to)}`;
+        }
+        return from !== undefined ? `≥ ${format(from)}` : `≤ ${format(to)}`;
+    }
+
+    /**
+     * Applies the default preset once per session, unless the report already
+     * has a selection for the menu. Relative date sections don't count: they are
+     * resolved from their saved period before this runs.
+     */
+    private applyDefaultPreset() {
+        if (this.defaultPresetChecked) {
+            return;
+        }
+        this.defaultPresetChecked = true;
+
+        const defaultPreset = this.presets.find(preset => preset.isDefault);
+        const hasSelection = this.filterCategories.some(category =>
+            !(category.range && category.settings.sectionType === "relativeDate") && this.isCategoryActive(category));
+        if (defaultPreset && !hasSelection) {
+            this.restorePreset(defaultPreset);
+            this.applySelection();
+        }
+    }
+
+    /**
+     * Puts the model into the state of a preset. Sections the preset doesn't know
+     * are cleared, and relative periods are resolved against today.
+     */
+    private restorePreset(preset: FilterPreset) {
+        const snapshot = deserializeSelection(preset.selection);
+
+        this.filterCategories
+            .filter(category => !getCategoryState(snapshot, category))
+            .forEach(category => this.resetCategory(category));
+        this.applySnapshot(snapshot);
+
+        this.filterCategories.forEach(category => {
+            const relative = getCategoryState(snapshot, category)?.relative;
+            if (category.range && category.settings.sectionType === "relativeDate" && relative) {
+                this.updateRelativePeriod(category, { ...relative });
+            } else if (!category.range && category.settings.requireSelection && !this.hasSelection(category)) {
+                this.selectDefaultValue(category);
+            }
+        });
+    }
+
+    private applyPreset(preset: FilterPreset) {
+        this.restorePreset(preset);
+        this.onSelectionChanged();
+        this.renderFilters();
+    }
+
+    /**
+     * Saves the current selection under a name. An existing preset with the same
+     * name is overwritten.
+     */
+    private savePreset(name: string) {
+        const selection = serializeSelection(captureSelection(this.filterCategories));
+        const existing = this.presets.find(preset => preset.name === name);
+
+        if (existing) {
+            existing.selection = selection;
+        } else {
+            this.presets.push({ name, isDefault: false, selection });
+        }
+        this.persistPresets();
+    }
+
+    private renamePreset(preset: FilterPreset, name: string) {
+        if (name && name !== preset.name && !this.presets.some(other => other.name === name)) {
+            preset.name = name;
+            this.persistPresets();
+        } else {
+            this.renderFilters();
+        }
+    }
+
+    private deletePreset(preset: FilterPreset) {
+        this.presets = this.presets.filter(other => other !== preset);
+        this.persistPresets();
+    }
+
+    // Only one preset can be the default
+    private toggleDefaultPreset(preset: FilterPreset) {
+        const isDefault = !preset.isDefault;
+        this.presets.forEach(other => other.isDefault = false);
+        preset.isDefault = isDefault;
+        this.persistPresets();
+    }
+
+    private persistPresets() {
+        this.host.persistProperties(toPresetChanges(this.presets));
+        this.renderFilters();
+    }
+
+    /**
+     * Preset buttons at the top of the menu. In edit mode each preset can be renamed,
+     * deleted or marked as default, and the current selection can be saved as a new one.
+     */
+    private createPresetSection(): HTMLElement | null {
+        if (this.presets.length === 0 && !this.isEditMode) {
+            return null;
+        }
+
+        const section = document.createElement("div");
+        section.className = "preset-section";
+        section.setAttribute("role", "group");
+        section.setAttribute("aria-label", this.localize("Visual_Presets"));
+
+        const list = document.createElement("div");
+        list.className = "preset-list";
+        this.presets.forEach(preset => list.appendChild(this.createPresetItem(preset)));
+        section.appendChild(list);
+
+        if (this.isEditMode) {
+            const form = document.createElement("form");
+            form.className = "preset-save";
+
+            const nameInput = document.createElement("input");
+            nameInput.type = "text";
+            nameInput.className = "preset-name-input";
+            nameInput.placeholder = this.localize("Visual_PresetName");
+            nameInput.setAttribute("aria-label", this.localize("Visual_PresetName"));
+
+            const saveButton = document.createElement("button");
+            saveButton.type = "submit";
+            saveButton.className = "section-action";
+            saveButton.textContent = this.localize("Visual_SavePreset");
+
+            form.addEventListener("submit", (event) => {
+                event.preventDefault();
+                const name = nameInput.value.trim();
+                if (name) {
+                    this.savePreset(name);
+                }
+            });
+
+            form.appendChild(nameInput);
+            form.appendChild(saveButton);
+            section.appendChild(form);
+        }
+
+        return section;
+    }
+
+    private createPresetItem(preset: FilterPreset): HTMLElement {
+        const item = document.createElement("div");
+        item.className = "preset-item";
+        item.classList.toggle("default", preset.isDefault);
+
+        const button = document.createElement("button");
+        button.className = "preset-button";
+        button.textContent = preset.name;
+        button.title = preset.isDefault ? this.localize("Visual_DefaultPreset", preset.name) : preset.name;
+        button.addEventListener("click", () => this.applyPreset(preset));
+        item.appendChild(button);
+
+        if (!this.isEditMode) {
+            return item;
+        }
+
+        const addAction = (className: string, text: string, label: string, action: () => void) => {
+            const actionButton = document.createElement("button");
+            actionButton.className = `preset-action ${className}`;
+            actionButton.textContent = text;
+            actionButton.title = label;
+            actionButton.setAttribute("aria-label", label);
+            actionButton.addEventListener("click", action);
+            item.appendChild(actionButton);
+            return actionButton;
+        };
+
+        const defaultButton = addAction("preset-default", preset.isDefault ? "★" : "☆",
+            this.localize("Visual_SetDefaultPreset", preset.name), () => this.toggleDefaultPreset(preset));
+        defaultButton.setAttribute("aria-pressed", String(preset.isDefault));
+
+        // Renaming swaps the button for an input; Enter or leaving the field saves, Escape cancels
+        addAction("preset-rename", "✎", this.localize("Visual_RenamePreset", preset.name), () => {
+            const input = document.createElement("input");
+            input.type = "text";
+            input.className = "preset-name-input";
+            input.value = preset.name;
+            input.setAttribute("aria-label", this.localize("Visual_RenamePreset", preset.name));
+
+            let done = false;
+            const finish = (save: boolean) => {
+                if (done) {
+                    return;
+                }
+                done = true;
+                if (save) {
+                    this.renamePreset(preset, input.value.trim());
+                } else {
+                    this.renderFilters();
+                }
+            };
+            input.addEventListener("keydown", (event: KeyboardEvent) => {
+                if (event.key === "Enter") {
+                    event.preventDefault();
+                    finish(true);
+                } else if (event.key === "Escape") {
+                    // Keep Escape from closing the menu
+                    event.preventDefault();
+                    event.stopPropagation();
+                    finish(false);
+                }
+            });
+            input.addEventListener("blur", () => finish(true));
+
+            button.replaceWith(input);
+            input.focus();
+            input.select();
+        });
+
+        addAction("preset-delete", "×", this.localize("Visual_DeletePreset", preset.name), () => this.deletePreset(preset));
+
+        return item;
+    }
+
+    private isSingleSelect(category: FilterCategory): boolean {
+        return category.settings.selectionMode === "single";
+    }
+
+    private hasSelection(category: FilterCategory): boolean {
+        if (category.isHierarchy) {
+            return (category.hierarchyLevels[0]?.values ?? []).some(val => val.selected || val.indeterminate);
+        }
+        return category.values.some(val => val.selected);
+    }
+
+    /**
+     * Selects the configured default value of a category, or its first value when the
+     * default isn't set or not part of the data. Hierarchy defaults are "Parent > Child" paths.
+     */
+    private selectDefaultValue(category: FilterCategory) {
+        const defaultValue = category.settings.defaultValue.trim();
+
+        if (category.isHierarchy) {
+            const roots = category.hierarchyLevels[0]?.values ?? [];
+            let node: FilterValue = null;
+            let candidates = roots;
+            for (const part of defaultValue ? defaultValue.split(">").map(p => p.trim()) : []) {
+                node = candidates.find(val => this.matchesDefaultValue(val, part));
+                if (!node) {
+                    break;
+                }
+                candidates = node.children ?? [];
+            }
+
+            const target = node ?? roots[0];
+            if (target) {
+                this.setHierarchyValueSelected(target, true);
+            }
+        } else {
+            const target = category.values.find(val => this.matchesDefaultValue(val, defaultValue)) ?? category.values[0];
+            if (target) {
+                target.selected = true;
+            }
+        }
+    }
+
+    /**
+     * Default values may be given as displayed or as the raw value.
+     */
+    private matchesDefaultValue(value: FilterValue, text: string): boolean {
+        return value.value === text || (value.rawValue != null && String(value.rawValue) === text);
+    }
+
+    /**
+     * Sections that must always keep a selection get their default value when the
+     * report has none for them, e.g. on first load or after a filter was removed.
+     */
+    private enforceRequiredSelections() {
+        let changed = false;
+
+        this.filterCategories.forEach(category => {
+            if (category.range) {
+                return;
+            }
+            if (category.settings.requireSelection && !this.hasSelection(category)) {
+                this.selectDefaultValue(category);
+                changed = changed || this.hasSelection(category);
+            }
+        });
+
+        if (changed) {
+            this.applySelection();
+        }
+    }
+
+    /**
+     * Pushes the selection state of all categories to the host, either as JSON
+     * filters (slicer behavior) or as selection ids (cross-highlighting).
+     */
+    private applySelection() {
+        if (this.isFilterMode()) {
+            const filters = buildFilters(this.filterCategories);
+            if (filters.length > 0) {
+                this.host.applyJsonFilter(filters, "general", "filter", FilterAction.merge);
+            } else {
+                this.host.applyJsonFilter(null, "general", "filter", FilterAction.remove);
+            }
+        } else {
+            const selectedIds: ISelectionId[] = [];
+            this.filterCategories.forEach(cat => {
                 cat.values.forEach(val => {
                     if (val.selected) {
                         selectedIds.push(val.identity);
                     }
                 });
-                if (cat.hierarchyLevels) {
-                    cat.hierarchyLevels.forEach(level => {
-                        level.values.forEach(val => {
-                            if (val.selected) {
-                                selectedIds.push(val.identity);
-                            }
-                        });
-                    });
+                if (cat.hierarchyLevels?.length > 0) {
+                    cat.hierarchyLevels[0].values.forEach(val => this.collectSelectedBranches(val, selectedIds));
                 }
+            });
+
+            if (selectedIds.length > 0) {
+                this.selectionManager.select(selectedIds, false);
+            } else {
+                this.selectionManager.clear();
             }
-        });
+        }
 
-        if (selectedIds.length > 0) {
-            this.selectionManager.select(selectedIds, false);
-        } else {
-            this.selectionManager.clear();
+        this.committedSelection = captureSelection(this.filterCategories);
+        this.hasPendingChanges = false;
+        this.updateApplyBar();
+        this.updateSummary();
+    }
+
+    /**
+     * Called after every change made in the menu. Applies it right away, or in
+     * apply mode only marks the menu as having pending changes.
+     */
+    private onSelectionChanged() {
+        if (!this.isDeferredApply()) {
+            this.applySelection();
+            this.updateCascade();
+            return;
         }
 
+        this.hasPendingChanges = !isSameSelection(captureSelection(this.filterCategories), this.committedSelection);
+        this.updateApplyBar();
+        this.updateSummary();
+        this.updateCascade();
+    }
+
+    private isDeferredApply(): boolean {
+        return !!this.formattingSettings?.behaviorCard.applyButton.value;
+    }
+
+    /**
+     * Sends all pending changes in one batch, including relative date periods
+     * that were changed since the last apply.
+     */
+    private applyPendingChanges() {
+        const merge = this.filterCategories
+            .filter(cat => cat.queryName && cat.settings.sectionType === "relativeDate"
+                && !isSameRelativePeriod(cat.settings, getCategoryState(this.committedSelection, cat)?.relative))
+            .map(cat => ({
+                objectName: "fieldSettings",
+                selector: { metadata: cat.queryName },
+                properties: {
+                    relativePeriod: cat.settings.relativePeriod,
+                    relativeCount: cat.settings.relativeCount,
+                    relativeUnit: cat.settings.relativeUnit
+                }
+            }));
+        if (merge.length > 0) {
+            this.host.persistProperties({ merge });
+        }
+
+        this.applySelection();
+    }
+
+    /**
+     * Throws the pending changes away and shows the applied selection again.
+     */
+    private discardPendingChanges() {
+        this.applySnapshot(this.committedSelection);
+        this.hasPendingChanges = false;
+        this.updateApplyBar();
         this.renderFilters();
     }
 
+    /**
+     * Restores a snapshot and recomputes the state derived from it.
+     */
+    private applySnapshot(snapshot: SelectionSnapshot) {
+        restoreSelection(this.filterCategories, snapshot);
+        this.filterCategories.filter(cat => cat.range).forEach(cat => this.syncRangeSelection(cat));
+        this.updateHierarchyStates();
+    }
+
+    private createApplyBar() {
+        this.applyBar = document.createElement("div");
+        this.applyBar.className = "apply-bar";
+
+        const indicator = document.createElement("span");
+        indicator.className = "pending-indicator";
+        indicator.setAttribute("role", "status");
+
+        this.cancelButton = document.createElement("button");
+        this.cancelButton.className = "cancel-button";
+        this.cancelButton.addEventListener("click", () => this.discardPendingChanges());
+
+        this.applyButton = document.createElement("button");
+        this.applyButton.className = "apply-button";
+        this.applyButton.addEventListener("click", () => this.applyPendingChanges());
+
+        this.applyBar.appendChild(indicator);
+        this.applyBar.appendChild(this.cancelButton);
+        this.applyBar.appendChild(this.applyButton);
+    }
+
+    private updateApplyBar() {
+        const indicator = this.applyBar.querySelector(".pending-indicator");
+        indicator.textContent = this.hasPendingChanges ? this.localize("Visual_PendingChanges") : "";
+
+        this.cancelButton.textContent = this.localize("Visual_Cancel");
+        this.applyButton.textContent = this.localize("Visual_Apply");
+        this.cancelButton.disabled = !this.hasPendingChanges;
+        this.applyButton.disabled = !this.hasPendingChanges;
+
+        this.applyBar.classList.toggle("visible", this.isDeferredApply());
+        this.applyBar.classList.toggle("dirty", this.hasPendingChanges);
+    }
+
+    /**
+     * A fully selected node is represented by its own identity, which already covers
+     * its descendants. Partially selected nodes only contribute their checked descendants.
+     */
+    private collectSelectedBranches(filterValue: FilterValue, selectedIds: ISelectionId[]) {
+        if (filterValue.selected) {
+            selectedIds.push(filterValue.identity);
+        } else if (filterValue.indeterminate) {
+            filterValue.children?.forEach(child => this.collectSelectedBranches(child, selectedIds));
+        }
+    }
+
+    private isFilterMode(): boolean {
+        return this.formattingSettings?.behaviorCard.interactionMode.value?.value !== "selection";
+    }
+
     private toggleMenu() {
         if (this.isMenuOpen) {
             this.closeMenu();
@@ -934,16 +2926,28 @@ export class Visual implements IVisual {
         this.menuPanel.classList.add("open");
         this.overlay.classList.add("visible");
         this.burgerButton.classList.add("hidden");
+        this.burgerButton.setAttribute("aria-expanded", "true");
+        this.menuPanel.inert = false;
+        this.closeButton.focus();
     }
 
     private closeMenu() {
+        if (this.hasPendingChanges) {
+            this.discardPendingChanges();
+        }
+
         this.isMenuOpen = false;
         this.menuPanel.classList.remove("open");
         this.overlay.classList.remove("visible");
         this.burgerButton.classList.remove("hidden");
+        this.burgerButton.setAttribute("aria-expanded", "false");
+        this.menuPanel.inert = true;
+        this.burgerButton.focus();
     }
 
     public getFormattingModel(): powerbi.visuals.FormattingModel {
+        this.formattingSettings.fieldSettingsCard.populate(this.filterCategories, this.isCascading(), this.localizationManager);
+        this.formattingSettings.localize(this.localizationManager);
         return this.formattingSettingsService.buildFormattingModel(this.formattingSettings);
     }
 }